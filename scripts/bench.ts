@@ -0,0 +1,179 @@
+/**
+ * Headless batch generation and benchmark
+ *
+ * Generates N seeds for a mode and tier with the same engine the worker
+ * runs, verifies every level and reports timing percentiles, failure and
+ * fallback counts and metric distributions.
+ *
+ *   npm run bench -- --mode 2 --tier hard --count 200
+ *   npm run bench -- --mode 3 --params "#w=8;h=8;k=6" --format csv > levels.csv
+ *
+ * Exits with status 1 when a level fails verification or the median
+ * generation time is over GEN_TIME_BUDGET_MS.
+ */
+import { parseArgs } from 'node:util';
+import { DifficultyTier, GameParams, Level, Mode, UniquenessPolicy } from '@/types';
+import { GenFailedError, GenTimeoutError, generateLevel, verifyLevel } from '@/lib/generator';
+import { GEN_TIME_BUDGET_MS } from '@/lib/hamiltonian';
+import { bandDistance, resolveBands } from '@/lib/difficulty';
+import { LATEST_PRNG_VERSION } from '@/lib/prng';
+import { DEFAULT_PARAMS, parseShareCode } from '@/lib/seed';
+
+type Status = 'ok' | 'fallback' | 'invalid' | 'timeout' | 'failed';
+
+interface Sample {
+  seed: string;
+  status: Status;
+  ms: number;
+  metrics: Record<string, number>;
+}
+
+const { values } = parseArgs({
+  options: {
+    mode: { type: 'string', default: '1' },
+    tier: { type: 'string', default: 'medium' },
+    count: { type: 'string', default: '100' },
+    seed: { type: 'string', default: 'bench' },
+    params: { type: 'string' },
+    uniqueness: { type: 'string', default: 'off' },
+    budget: { type: 'string' },
+    format: { type: 'string', default: 'json' }
+  }
+});
+
+const mode = parseInt(values.mode, 10) as Mode;
+const tier = values.tier as DifficultyTier;
+const count = parseInt(values.count, 10);
+const uniqueness = values.uniqueness as UniquenessPolicy;
+if (!DEFAULT_PARAMS[tier]?.[mode]) fail(`Unknown mode/tier: ${values.mode}/${values.tier}`);
+if (!(count > 0)) fail(`Invalid count: ${values.count}`);
+if (!['off', 'reject', 'repair'].includes(uniqueness)) fail(`Unknown uniqueness policy: ${uniqueness}`);
+if (values.format !== 'json' && values.format !== 'csv') fail(`Unknown format: ${values.format}`);
+
+// Tier presets, overridden by any share-code tokens given with --params
+const base: GameParams = {
+  v: LATEST_PRNG_VERSION,
+  m: mode,
+  diff: tier,
+  ...DEFAULT_PARAMS[tier][mode],
+  ...(values.params ? parseShareCode(values.params.startsWith('#') ? values.params : `#${values.params}`) : {})
+};
+const bands = resolveBands(base, mode);
+
+const samples: Sample[] = [];
+for (let i = 0; i < count; i++) {
+  samples.push(runSeed(`${values.seed}${i}`));
+}
+
+if (values.format === 'csv') {
+  printCsv(samples);
+} else {
+  console.log(JSON.stringify(summarize(samples), null, 2));
+}
+
+const invalid = samples.filter(sample => sample.status === 'invalid').length;
+const median = percentile(samples.map(sample => sample.ms), 0.5);
+if (invalid > 0 || median > GEN_TIME_BUDGET_MS) process.exitCode = 1;
+
+function runSeed(seed: string): Sample {
+  const params = { ...base, seed };
+  const deadline = values.budget ? Date.now() + parseInt(values.budget, 10) : undefined;
+  const started = performance.now();
+  let level: Level;
+  try {
+    level = generateLevel(params, { deadline, uniqueness });
+  } catch (error) {
+    const ms = performance.now() - started;
+    if (error instanceof GenTimeoutError) return { seed, status: 'timeout', ms, metrics: {} };
+    if (error instanceof GenFailedError) return { seed, status: 'failed', ms, metrics: {} };
+    throw error;
+  }
+  const ms = performance.now() - started;
+
+  const { rating, ...rest } = level.metrics;
+  const metrics: Record<string, number> = { ...rest };
+  if (rating) {
+    metrics.ratingScore = rating.score;
+    metrics.ratingGuesses = rating.guesses;
+  }
+
+  // Outside the bands means every attempt missed and the closest was used
+  const status: Status = !verifyLevel(level)
+    ? 'invalid'
+    : bands && bandDistance(level.metrics, bands) > 0 ? 'fallback' : 'ok';
+  return { seed, status, ms, metrics };
+}
+
+function summarize(samples: Sample[]) {
+  const counts: Record<Status, number> = { ok: 0, fallback: 0, invalid: 0, timeout: 0, failed: 0 };
+  for (const sample of samples) counts[sample.status]++;
+
+  const generated = samples.filter(sample => sample.status !== 'timeout' && sample.status !== 'failed');
+  const metrics: Record<string, ReturnType<typeof distribution>> = {};
+  for (const key of metricKeys(generated)) {
+    metrics[key] = distribution(generated.map(sample => sample.metrics[key]).filter(value => value !== undefined));
+  }
+
+  return {
+    params: { ...base, seed: `${values.seed}0..${values.seed}${samples.length - 1}` },
+    uniqueness,
+    count: samples.length,
+    counts,
+    timingMs: distribution(samples.map(sample => sample.ms)),
+    medianWithinBudget: percentile(samples.map(sample => sample.ms), 0.5) <= GEN_TIME_BUDGET_MS,
+    metrics
+  };
+}
+
+/**
+ * One row per seed, for plotting the distributions elsewhere
+ */
+function printCsv(samples: Sample[]) {
+  const keys = metricKeys(samples);
+  console.log(['seed', 'status', 'ms', ...keys].join(','));
+  for (const sample of samples) {
+    console.log([
+      sample.seed,
+      sample.status,
+      sample.ms.toFixed(1),
+      ...keys.map(key => sample.metrics[key] === undefined ? '' : round(sample.metrics[key]))
+    ].join(','));
+  }
+}
+
+function metricKeys(samples: Sample[]): string[] {
+  const keys = new Set<string>();
+  for (const sample of samples) {
+    for (const key of Object.keys(sample.metrics)) keys.add(key);
+  }
+  return [...keys];
+}
+
+function distribution(values: number[]) {
+  if (values.length === 0) return null;
+  return {
+    min: round(Math.min(...values)),
+    p10: round(percentile(values, 0.1)),
+    p50: round(percentile(values, 0.5)),
+    p90: round(percentile(values, 0.9)),
+    p99: round(percentile(values, 0.99)),
+    max: round(Math.max(...values)),
+    mean: round(values.reduce((sum, value) => sum + value, 0) / values.length)
+  };
+}
+
+// Nearest-rank percentile
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = values.slice().sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))];
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(2);
+}
@@ -1,15 +1,29 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { Mode, DifficultyTier } from '@/types';
+import { Mode, DifficultyTier, Level } from '@/types';
 import { generateSeed, serializeShareCode, getDefaultParams } from '@/lib/seed';
+import { loadGameState } from '@/lib/storage';
+import { ratingLabel } from '@/lib/deduction';
+
+const MODE_NAMES: Record<Mode, string> = {
+  1: 'Classic Block Fill',
+  2: 'Multi Block Fill',
+  3: 'Flow Free'
+};
 
 export default function Home() {
   const router = useRouter();
   const [mode, setMode] = useState<Mode>(1);
   const [difficulty, setDifficulty] = useState<DifficultyTier>('medium');
   const [customSeed, setCustomSeed] = useState('');
+  const [savedLevel, setSavedLevel] = useState<Level | null>(null);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setSavedLevel(loadGameState()?.level ?? null);
+  }, []);
 
   const handlePlay = () => {
     const params = getDefaultParams(mode, difficulty);
@@ -27,6 +41,24 @@ export default function Home() {
           Cover all cells with paths following the rules of each mode.
         </p>
 
+        {savedLevel?.metrics.rating && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-4 mb-6 max-w-md w-full flex items-center justify-between gap-4">
+            <div>
+              <div className="font-semibold">Continue: {MODE_NAMES[savedLevel.mode]}</div>
+              <div className="text-sm opacity-75">
+                {savedLevel.w}×{savedLevel.h} · Rated {savedLevel.metrics.rating.score.toFixed(1)}/10
+                ({ratingLabel(savedLevel.metrics.rating.score)}) · {savedLevel.metrics.rating.guesses} guesses
+              </div>
+            </div>
+            <button
+              className="bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition"
+              onClick={() => router.push('/play')}
+            >
+              Continue
+            </button>
+          </div>
+        )}
+
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 max-w-md w-full">
           <div className="mb-6">
             <label className="block text-sm font-medium mb-2">Game Mode</label>
@@ -1,13 +1,18 @@
 'use client';
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { BoardSVG } from '@/components/BoardSVG';
 import { useGameStore } from '@/store/gameStore';
 import { useHashRouter } from '@/hooks/useHashRouter';
 import { useInput } from '@/hooks/useInput';
 import { useValidator } from '@/hooks/useValidator';
 import { useWorker } from '@/hooks/useWorker';
-import { getDefaultParams, generateSeed } from '@/lib/seed';
+import { getDefaultParams, generateSeed, serializeShareCode } from '@/lib/seed';
+import { ratingLabel } from '@/lib/deduction';
+import { exportLevel, importLevel } from '@/lib/levelFile';
+import { levelShareParams } from '@/lib/levelCode';
+
+const MIN_BOARD_SIZE = 4;
 
 export default function PlayPage() {
   const { 
@@ -16,31 +21,43 @@ export default function PlayPage() {
     currentColor, 
     isGenerating, 
     error,
+    errorCode,
+    hint,
+    rejectedStrokes,
     undo,
     redo,
+    canUndo,
+    canRedo,
     reset,
     setParams,
     params,
-    loadFromStorage
+    loadFromStorage,
+    loadLevel
   } = useGameStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
   
   const { loadFromHash } = useHashRouter();
   const { handleCellMouseDown, handleCellMouseEnter, handleCellMouseUp } = useInput();
   const { hasWon, coverage } = useValidator();
-  const { generateLevel } = useWorker();
+  const { generateLevel, requestHint } = useWorker();
 
   useEffect(() => {
     console.log('PlayPage useEffect - Starting initialization');
     const hashParams = loadFromHash();
     console.log('Hash params:', hashParams);
     
-    if (!hashParams || !hashParams.seed) {
+    if (hashParams?.lc) {
+      // useHashRouter already loaded the level from its code
+      return;
+    } else if (!hashParams || !hashParams.seed) {
       // Try to load from storage first
       loadFromStorage();
-      console.log('Loaded from storage, level exists:', !!level);
+      const storedLevel = useGameStore.getState().level;
+      console.log('Loaded from storage, level exists:', !!storedLevel);
       
       // If no stored game, generate new one
-      if (!level) {
+      if (!storedLevel) {
         const defaultParams = getDefaultParams(1, 'medium');
         defaultParams.seed = generateSeed();
         console.log('Generating new level with params:', defaultParams);
@@ -51,11 +68,44 @@ export default function PlayPage() {
       console.log('Generating level from hash params:', hashParams);
       generateLevel(hashParams);
     }
-  }, [generateLevel, level, loadFromHash, loadFromStorage, setParams]);
+    // Runs once on mount: a level change must not regenerate from the hash,
+    // or imported levels would be replaced right away
+  }, [generateLevel, loadFromHash, loadFromStorage, setParams]);
+
+  // Ctrl+Z undoes the last stroke, Ctrl+Shift+Z redoes it (Cmd on macOS)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      event.preventDefault();
+      if (event.shiftKey) redo();
+      else undo();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
+  // New games, seeds and sizes generate, so a loaded level's code is dropped
   const handleNewGame = () => {
     const newParams = getDefaultParams(params.m || 1, params.diff || 'medium');
     newParams.seed = generateSeed();
+    setParams({ ...newParams, lc: undefined });
+    generateLevel(newParams);
+  };
+
+  const handleNewSeed = () => {
+    const newParams = { ...params, lc: undefined, seed: generateSeed() };
+    setParams(newParams);
+    generateLevel(newParams);
+  };
+
+  const handleSmallerSize = () => {
+    const newParams = {
+      ...params,
+      lc: undefined,
+      w: Math.max(MIN_BOARD_SIZE, (params.w || 10) - 2),
+      h: Math.max(MIN_BOARD_SIZE, (params.h || 10) - 2)
+    };
     setParams(newParams);
     generateLevel(newParams);
   };
@@ -64,8 +114,37 @@ export default function PlayPage() {
     reset();
   };
 
-  const canUndo = playerPaths.size > 0;
-  const canRedo = false;
+  const handleExport = () => {
+    if (!level) return;
+    const url = URL.createObjectURL(new Blob([exportLevel(level)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `block-fill-${level.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = importLevel(await file.text());
+      setImportError(null);
+      // Levels the generator reproduces keep their share code; any other
+      // level is linked by a level code carrying the whole board
+      const shareParams = levelShareParams(imported);
+      window.history.replaceState(null, '', serializeShareCode(shareParams));
+      loadLevel(imported, shareParams);
+    } catch (importFailure) {
+      setImportError(importFailure instanceof Error ? importFailure.message : String(importFailure));
+    }
+  };
+
+  const handleHint = () => {
+    if (level) requestHint(level, currentColor);
+  };
 
   return (
     <div className="container">
@@ -79,29 +158,74 @@ export default function PlayPage() {
           <button onClick={handleReset} disabled={!level || playerPaths.size === 0}>
             Reset
           </button>
-          <button onClick={undo} disabled={!canUndo}>
+          <button onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)">
             Undo
           </button>
-          <button onClick={redo} disabled={!canRedo}>
+          <button onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
             Redo
           </button>
+          <button onClick={handleHint} disabled={!level || isGenerating || hasWon}>
+            Hint
+          </button>
+          <button onClick={handleExport} disabled={!level || isGenerating}>
+            Export
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} disabled={isGenerating}>
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImport}
+          />
         </div>
 
+        {importError && (
+          <div className="mb-4 p-3 bg-red-100 text-red-700 rounded text-center">
+            Could not import level: {importError}
+          </div>
+        )}
+
         <div className="mb-4 text-center">
           <p className="text-sm text-gray-600">
             Mode: {params.m === 1 ? 'Classic' : params.m === 2 ? 'Multi' : 'Flow'} | 
-            Difficulty: {params.diff} | 
-            Seed: {params.seed}
+            {params.diff && <>Difficulty: {params.diff} | </>}
+            Seed: {params.seed || level?.seed}
+            {level?.metrics.rating && (
+              <> | Rated {level.metrics.rating.score.toFixed(1)}/10 ({ratingLabel(level.metrics.rating.score)})</>
+            )}
           </p>
           <p className="text-sm mt-2">
             Coverage: {coverage}%
             {hasWon && <span className="ml-2 text-green-600 font-bold">You Win!</span>}
           </p>
+          {hint?.status === 'wrong' && (
+            <p className="text-sm mt-1 text-red-600">The highlighted cell cannot be part of any solution.</p>
+          )}
+          {hint?.status === 'unknown' && (
+            <p className="text-sm mt-1 text-gray-600">No hint found in time for this position.</p>
+          )}
         </div>
 
         {error && (
-          <div className="mb-4 p-3 bg-red-100 text-red-700 rounded">
-            {error}
+          <div className="mb-4 p-3 bg-red-100 text-red-700 rounded text-center">
+            {errorCode === 'gen-timeout'
+              ? 'This level took too long to generate. Try a smaller size or a new seed.'
+              : errorCode === 'gen-failed'
+              ? 'No solvable level could be generated for these settings. Try a smaller size or a new seed.'
+              : error}
+            {errorCode && (
+              <div className="mt-2 flex gap-2 justify-center">
+                <button onClick={handleSmallerSize} disabled={isGenerating}>
+                  Smaller Size
+                </button>
+                <button onClick={handleNewSeed} disabled={isGenerating}>
+                  New Seed
+                </button>
+              </div>
+            )}
           </div>
         )}
 
@@ -114,6 +238,8 @@ export default function PlayPage() {
             level={level}
             playerPaths={playerPaths}
             currentColor={currentColor}
+            hint={hint}
+            rejectedStrokes={rejectedStrokes}
             onCellMouseDown={handleCellMouseDown}
             onCellMouseEnter={handleCellMouseEnter}
             onCellMouseUp={handleCellMouseUp}
@@ -1,13 +1,15 @@
 'use client';
 
 import React, { useRef, useCallback, useMemo } from 'react';
-import { Level } from '@/types';
+import { Hint, Level } from '@/types';
 import { PaintModel } from '@/lib/paint';
 
 interface BoardSVGProps {
   level: Level;
   playerPaths: Map<number, number[]>;
   currentColor?: number;
+  hint?: Hint | null;
+  rejectedStrokes?: number; // bumped per refused stroke; replays the start flash
   onCellMouseDown: (index: number) => void;
   onCellMouseEnter: (index: number) => void;
   onCellMouseUp: () => void;
@@ -16,6 +18,8 @@ interface BoardSVGProps {
 export function BoardSVG({
   level,
   playerPaths,
+  hint,
+  rejectedStrokes = 0,
   onCellMouseDown,
   onCellMouseEnter,
   onCellMouseUp
@@ -165,6 +169,92 @@ export function BoardSVG({
     return result;
   }, [playerPaths, renderPath]);
 
+  const hintOverlay = useMemo(() => {
+    if (hint?.status === 'step' && hint.from !== undefined && hint.to !== undefined) {
+      const from = getCellCenter(hint.from);
+      const to = getCellCenter(hint.to);
+      const pos = getCellPosition(hint.to);
+      return (
+        <g key={`hint-${hint.from}-${hint.to}`} pointerEvents="none">
+          <line
+            x1={from.x}
+            y1={from.y}
+            x2={to.x}
+            y2={to.y}
+            stroke={`var(--color-${hint.color})`}
+            strokeWidth={pathWidth}
+            strokeLinecap="round"
+            style={{
+              strokeDasharray: cellSize + gap,
+              strokeDashoffset: cellSize + gap,
+              animation: 'hintStep 900ms ease-in-out infinite'
+            }}
+          />
+          <rect
+            x={pos.x}
+            y={pos.y}
+            width={cellSize}
+            height={cellSize}
+            fill="none"
+            stroke={`var(--color-${hint.color})`}
+            strokeWidth={3}
+            rx={4}
+            ry={4}
+            style={{ animation: 'hintPulse 900ms ease-in-out infinite' }}
+          />
+        </g>
+      );
+    }
+
+    if (hint?.status === 'wrong' && hint.cell !== undefined) {
+      const pos = getCellPosition(hint.cell);
+      return (
+        <rect
+          key={`hint-wrong-${hint.cell}`}
+          x={pos.x}
+          y={pos.y}
+          width={cellSize}
+          height={cellSize}
+          fill="none"
+          stroke="var(--hint-wrong)"
+          strokeWidth={3}
+          rx={4}
+          ry={4}
+          pointerEvents="none"
+          style={{ animation: 'hintPulse 600ms ease-in-out 3' }}
+        />
+      );
+    }
+
+    return null;
+  }, [hint, getCellCenter, getCellPosition, cellSize, gap, pathWidth]);
+
+  // Rings the start markers when a stroke began anywhere else, keyed by the
+  // rejection count so each refusal restarts the animation
+  const rejectionOverlay = useMemo(() => {
+    if (rejectedStrokes === 0) return null;
+
+    return (
+      <g key={`reject-${rejectedStrokes}`} pointerEvents="none">
+        {level.starts.map(start => {
+          const center = getCellCenter(start.i);
+          return (
+            <circle
+              key={start.i}
+              cx={center.x}
+              cy={center.y}
+              r={cellSize / 2 - 3}
+              fill="none"
+              stroke={`var(--color-${start.color})`}
+              strokeWidth={3}
+              style={{ animation: 'startReject 500ms ease-in-out 2 forwards' }}
+            />
+          );
+        })}
+      </g>
+    );
+  }, [rejectedStrokes, level.starts, getCellCenter, cellSize]);
+
   return (
     <svg
       ref={svgRef}
@@ -181,6 +271,8 @@ export function BoardSVG({
     >
       <g>{cells}</g>
       <g>{paths}</g>
+      <g>{hintOverlay}</g>
+      <g>{rejectionOverlay}</g>
     </svg>
   );
 }
\ No newline at end of file
@@ -1,10 +1,11 @@
 import { useEffect, useCallback } from 'react';
 import { parseShareCode, serializeShareCode } from '@/lib/seed';
+import { decodeLevelCode } from '@/lib/levelCode';
 import { GameParams } from '@/types';
 import { useGameStore } from '@/store/gameStore';
 
 export function useHashRouter() {
-  const { params, setParams } = useGameStore();
+  const { params, setParams, loadLevel, setError } = useGameStore();
 
   const updateHash = useCallback((newParams: GameParams) => {
     const hash = serializeShareCode(newParams);
@@ -17,11 +18,20 @@ export function useHashRouter() {
     const hash = window.location.hash;
     if (hash) {
       const parsedParams = parseShareCode(hash);
+      // A level code carries the whole level, so there is nothing to generate
+      if (parsedParams.lc) {
+        try {
+          loadLevel(decodeLevelCode(parsedParams.lc), parsedParams);
+        } catch (error) {
+          setError(`Invalid level link: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        return parsedParams;
+      }
       setParams(parsedParams);
       return parsedParams;
     }
     return null;
-  }, [setParams]);
+  }, [setParams, loadLevel, setError]);
 
   useEffect(() => {
     const handleHashChange = () => {
@@ -1,11 +1,11 @@
 import { useEffect, useRef, useCallback } from 'react';
-import { WorkerMessage, WorkerResponse, GameParams, Level } from '@/types';
+import { WorkerMessage, WorkerResponse, GameParams, Level, UniquenessPolicy } from '@/types';
 import { useGameStore } from '@/store/gameStore';
 import { createGenerationWorker, terminateWorker } from '@/lib/worker-factory';
 
 export function useWorker() {
   const workerRef = useRef<Worker | null>(null);
-  const { setLevel, setIsGenerating, setError, playerPaths } = useGameStore();
+  const { setLevel, setIsGenerating, setError, setHint, playerPaths } = useGameStore();
 
   useEffect(() => {
     console.log('useWorker: Creating worker...');
@@ -37,12 +37,20 @@ export function useWorker() {
           break;
           
         case 'solved':
-          console.log('Solution:', response.solution);
+          console.log('Solve result:', response.status, response.solutionPaths);
+          break;
+          
+        case 'counted':
+          console.log('Solution count:', response.count, response.complete ? '(exact)' : '(at least)');
+          break;
+          
+        case 'hinted':
+          setHint(response.hint ?? null);
           break;
           
         case 'error':
           console.error('Worker error:', response.error);
-          setError(response.error || 'Unknown error');
+          setError(response.error || 'Unknown error', response.code);
           setIsGenerating(false);
           break;
       }
@@ -60,9 +68,9 @@ export function useWorker() {
         workerRef.current = null;
       }
     };
-  }, [setLevel, setIsGenerating, setError]);
+  }, [setLevel, setIsGenerating, setError, setHint]);
 
-  const generateLevel = useCallback((params: GameParams) => {
+  const generateLevel = useCallback((params: GameParams, uniqueness: UniquenessPolicy = 'off') => {
     console.log('generateLevel called with params:', params);
     
     if (!workerRef.current) {
@@ -75,7 +83,8 @@ export function useWorker() {
     
     const message: WorkerMessage = {
       type: 'generate',
-      params
+      params,
+      uniqueness
     };
     
     console.log('Posting message to worker:', message);
@@ -99,15 +108,43 @@ export function useWorker() {
     
     const message: WorkerMessage = {
       type: 'solve',
-      level
+      level,
+      paths: playerPaths
+    };
+    
+    workerRef.current.postMessage(message);
+  }, [playerPaths]);
+
+  const countSolutions = useCallback((level: Level, cap: number = 2) => {
+    if (!workerRef.current) return;
+    
+    const message: WorkerMessage = {
+      type: 'count',
+      level,
+      cap
     };
     
     workerRef.current.postMessage(message);
   }, []);
 
+  const requestHint = useCallback((level: Level, color: number) => {
+    if (!workerRef.current) return;
+    
+    const message: WorkerMessage = {
+      type: 'hint',
+      level,
+      paths: playerPaths,
+      color
+    };
+    
+    workerRef.current.postMessage(message);
+  }, [playerPaths]);
+
   return {
     generateLevel,
     validateLevel,
-    solveLevel
+    solveLevel,
+    countSolutions,
+    requestHint
   };
 }
\ No newline at end of file
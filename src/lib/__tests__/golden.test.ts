@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { Level } from '@/types';
+import { generateLevel } from '../generator';
+import { parseShareCode } from '../seed';
+
+// Every share code here must keep producing its committed level. When a
+// generator change is meant to alter output, review the diff and refresh
+// the fixtures with `npm test -- -u`.
+const GOLDEN_CODES: { name: string; code: string }[] = [
+  { name: 'm1-easy', code: '#v=1;m=1;w=8;h=10;k=1;hd=0.1;diff=easy;seed=golden' },
+  { name: 'm1-medium', code: '#v=1;m=1;w=10;h=12;k=1;hd=0.15;diff=medium;seed=golden' },
+  { name: 'm1-hard', code: '#v=1;m=1;w=12;h=14;k=1;hd=0.18;diff=hard;seed=golden' },
+  { name: 'm1-plain', code: '#v=1;m=1;w=6;h=6;hd=0;seed=plain' },
+  { name: 'm1-pinned', code: '#v=1;m=1;w=8;h=8;k=1;hd=0.1;seed=pinned;fr=0.5;sp=interior' },
+  { name: 'm2-easy', code: '#v=1;m=2;w=8;h=10;k=3;hd=0.1;diff=easy;seed=golden' },
+  { name: 'm2-medium', code: '#v=1;m=2;w=10;h=12;k=4;hd=0.15;diff=medium;seed=golden' },
+  { name: 'm2-hard', code: '#v=1;m=2;w=12;h=14;k=6;hd=0.18;diff=hard;seed=golden' },
+  { name: 'm2-pinned', code: '#v=1;m=2;w=8;h=8;k=4;hd=0.1;seed=pinned;lmin=10;sp=boundary' },
+  { name: 'm3-easy', code: '#v=1;m=3;w=6;h=6;k=4;hd=0;diff=easy;seed=golden' },
+  { name: 'm3-medium', code: '#v=1;m=3;w=7;h=7;k=5;hd=0;diff=medium;seed=golden' },
+  { name: 'm3-hard', code: '#v=1;m=3;w=8;h=8;k=7;hd=0;diff=hard;seed=golden' },
+  { name: 'm3-pinned', code: '#v=1;m=3;w=6;h=6;k=4;seed=pinned;tr=5;lmax=12' },
+  { name: 'm1-medium-v2', code: '#v=2;m=1;w=10;h=12;k=1;hd=0.15;diff=medium;seed=golden' },
+  { name: 'm2-medium-v2', code: '#v=2;m=2;w=10;h=12;k=4;hd=0.15;diff=medium;seed=golden' },
+  { name: 'm3-medium-v2', code: '#v=2;m=3;w=7;h=7;k=5;hd=0;diff=medium;seed=golden' }
+];
+
+/**
+ * Renders a level as text that diffs line by line: the open mask as a grid
+ * ('.' open, '#' hole), then starts, pairs, each color path and each metric
+ */
+function formatGolden(code: string, level: Level): string {
+  const lines = [`code: ${code}`, 'open:'];
+  for (let y = 0; y < level.h; y++) {
+    let row = '';
+    for (let x = 0; x < level.w; x++) row += level.open[y * level.w + x] === 1 ? '.' : '#';
+    lines.push(`  ${row}`);
+  }
+  lines.push(`starts: ${JSON.stringify(level.starts)}`);
+  if (level.pairs) lines.push(`pairs: ${JSON.stringify(level.pairs)}`);
+  lines.push('solution:');
+  (level.solutionPaths || []).forEach((path, color) => lines.push(`  ${color}: ${JSON.stringify(path)}`));
+  lines.push('metrics:');
+  for (const [key, value] of Object.entries(level.metrics)) {
+    lines.push(`  ${key}: ${JSON.stringify(value)}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+describe('golden share codes', () => {
+  it.each(GOLDEN_CODES)('$name reproduces its fixture', async ({ name, code }) => {
+    const level = generateLevel(parseShareCode(code), { deadline: Infinity });
+    await expect(formatGolden(code, level)).toMatchFileSnapshot(`./golden/${name}.txt`);
+  });
+});
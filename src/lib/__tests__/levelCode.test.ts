@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { Mode } from '@/types';
+import { generateLevel } from '../generator';
+import { LevelCodeError, decodeLevelCode, encodeLevelCode, levelShareParams } from '../levelCode';
+import { fromLevelFile } from '../levelFile';
+import { getDefaultParams, parseShareCode, serializeShareCode } from '../seed';
+
+const MODES: Mode[] = [1, 2, 3];
+
+describe('level codes', () => {
+  it.each(MODES)('round-trips the board and solution of a mode %i level', mode => {
+    const level = generateLevel({ ...getDefaultParams(mode, 'hard'), seed: 'code' }, { deadline: Infinity });
+    const decoded = decodeLevelCode(encodeLevelCode(level));
+
+    expect(decoded.open).toEqual(level.open);
+    expect(decoded.starts).toEqual(level.mode === 3 ? level.starts : level.starts.slice().sort((a, b) => a.color - b.color));
+    expect(decoded.pairs).toEqual(level.pairs);
+    expect(decoded.solutionPaths).toEqual(level.solutionPaths);
+    const { rating, ...metrics } = level.metrics;
+    expect(rating).toBeDefined();
+    expect(decoded.metrics).toEqual(metrics);
+  });
+
+  it('survives the share-code hash', () => {
+    const level = fromLevelFile({
+      format: 'block-fill-level',
+      version: 1,
+      mode: 2,
+      w: 3,
+      h: 3,
+      open: ['...', '.#.', '...'],
+      starts: [0, 8]
+    });
+    const hash = serializeShareCode({ lc: encodeLevelCode(level) });
+    const decoded = decodeLevelCode(parseShareCode(hash).lc!);
+    expect(decoded.starts).toEqual(level.starts);
+    expect(decoded.solutionPaths).toBeUndefined();
+  });
+
+  it('rejects truncated and mistyped codes', () => {
+    const code = encodeLevelCode(generateLevel({ ...getDefaultParams(3, 'easy'), seed: 'cut' }, { deadline: Infinity }));
+    for (let length = 0; length < code.length; length++) {
+      expect(() => decodeLevelCode(code.slice(0, length)), `length ${length}`).toThrow(LevelCodeError);
+    }
+    const flipped = code.slice(0, 10) + (code[10] === 'A' ? 'B' : 'A') + code.slice(11);
+    expect(() => decodeLevelCode(flipped)).toThrow('checksum does not match');
+    expect(() => decodeLevelCode(code + '!')).toThrow('outside base64url');
+  });
+
+  it('links levels the generator reproduces by their share code', () => {
+    const level = generateLevel({ ...getDefaultParams(3, 'easy'), seed: 'share' }, { deadline: Infinity });
+    const params = levelShareParams(level);
+    expect(params.lc).toBeUndefined();
+    expect(params.seed).toBe('share');
+  });
+
+  it('links any other level by its level code', () => {
+    const level = fromLevelFile({
+      format: 'block-fill-level',
+      version: 1,
+      mode: 2,
+      w: 3,
+      h: 3,
+      open: ['...', '.#.', '...'],
+      starts: [0, 8],
+      seed: 'edited',
+      params: { m: 2, w: 3, h: 3, k: 2 }
+    });
+    expect(levelShareParams(level)).toEqual({ lc: encodeLevelCode(level) });
+  });
+});
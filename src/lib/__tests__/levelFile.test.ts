@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { Mode } from '@/types';
+import { generateLevel } from '../generator';
+import { LevelFormatError, exportLevel, fromLevelFile, importLevel, toLevelFile } from '../levelFile';
+import { getDefaultParams } from '../seed';
+
+const MODES: Mode[] = [1, 2, 3];
+
+// A hand-made Mode 3 board: two colors on a 3x2 rectangle, no solution given
+const HAND_MADE = {
+  format: 'block-fill-level',
+  version: 1,
+  mode: 3,
+  w: 3,
+  h: 2,
+  open: ['...', '...'],
+  pairs: [[0, 2], [3, 5]]
+};
+
+describe('level files', () => {
+  it.each(MODES)('round-trips a generated mode %i level', mode => {
+    const level = generateLevel({ ...getDefaultParams(mode, 'medium'), seed: 'file' }, { deadline: Infinity });
+    expect(importLevel(exportLevel(level))).toEqual(level);
+  });
+
+  it('keeps a hand-made level without a solution', () => {
+    const level = fromLevelFile(HAND_MADE);
+    expect(level.pairs).toEqual([{ color: 0, a: 0, b: 2 }, { color: 1, a: 3, b: 5 }]);
+    expect(level.solutionPaths).toBeUndefined();
+    expect(level.metrics.size).toBe(6);
+    expect(fromLevelFile(toLevelFile(level))).toEqual(level);
+  });
+
+  it('accepts a solution that covers the board', () => {
+    const level = fromLevelFile({ ...HAND_MADE, solution: [[0, 1, 2], [3, 4, 5]] });
+    expect(level.solution).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it.each([
+    ['not JSON', '{', 'Level file is not valid JSON'],
+    ['a wrong format', { ...HAND_MADE, format: 'other' }, 'format: expected "block-fill-level"'],
+    ['a newer version', { ...HAND_MADE, version: 2 }, 'version: unsupported version 2'],
+    ['a short row', { ...HAND_MADE, open: ['...', '..'] }, 'open[1]: expected 3 cells, got 2'],
+    ['a stray character', { ...HAND_MADE, open: ['...', '.x.'] }, 'open[1]: unexpected "x"'],
+    ['an end on a hole', { ...HAND_MADE, open: ['..#', '...'] }, 'pairs[0][1]: cell 2 is a hole'],
+    ['a shared end', { ...HAND_MADE, pairs: [[0, 2], [2, 5]] }, 'cell 2 is used by more than one start'],
+    ['two Mode 1 starts', { ...HAND_MADE, mode: 1, pairs: undefined, starts: [0, 1] }, 'starts: Mode 1 has exactly one start'],
+    ['a broken solution', { ...HAND_MADE, solution: [[0, 2, 1], [3, 4, 5]] }, 'solution: paths must cover']
+  ])('rejects %s', (_, input, message) => {
+    const load = () => typeof input === 'string' ? importLevel(input) : fromLevelFile(input);
+    expect(load).toThrow(LevelFormatError);
+    expect(load).toThrow(message);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { fromLevelFile } from '../levelFile';
+import { PaintModel } from '../paint';
+
+// 3x2 boards, every cell open
+//   0 1 2
+//   3 4 5
+const CLASSIC = fromLevelFile({ format: 'block-fill-level', version: 1, mode: 1, w: 3, h: 2, open: ['...', '...'], starts: [0] });
+const MULTI = fromLevelFile({ format: 'block-fill-level', version: 1, mode: 2, w: 3, h: 2, open: ['...', '...'], starts: [0, 5] });
+
+describe('PaintModel.checkWin', () => {
+  it('accepts a Classic path drawn from its start', () => {
+    const model = new PaintModel(CLASSIC);
+    expect(model.checkWin(new Map([[0, [0, 1, 2, 5, 4, 3]]]), 1)).toBe(true);
+  });
+
+  it('rejects a Classic path that only passes through its start', () => {
+    const model = new PaintModel(CLASSIC);
+    expect(model.checkWin(new Map([[0, [1, 0, 3, 4, 5, 2]]]), 1)).toBe(false);
+    expect(model.checkWin(new Map([[0, [3, 4, 5, 2, 1, 0]]]), 1)).toBe(false);
+  });
+
+  it('requires every Multi color to begin at its own start', () => {
+    const model = new PaintModel(MULTI);
+    expect(model.checkWin(new Map([[0, [0, 1, 2]], [1, [5, 4, 3]]]), 2)).toBe(true);
+    expect(model.checkWin(new Map([[0, [0, 1, 2]], [1, [3, 4, 5]]]), 2)).toBe(false);
+    expect(model.checkWin(new Map([[0, [0, 1, 2]], [2, [5, 4, 3]]]), 2)).toBe(false);
+  });
+});
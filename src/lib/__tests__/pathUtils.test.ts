@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { interpolatePath, straightRoute } from '../pathUtils';
+
+// 5x5 board, every cell open
+//    0  1  2  3  4
+//    5  6  7  8  9
+//   10 11 12 13 14
+//   15 16 17 18 19
+//   20 21 22 23 24
+const W = 5;
+const H = 5;
+const OPEN = new Uint8Array(W * H).fill(1);
+
+describe('straightRoute', () => {
+  it('follows a row or column directly', () => {
+    expect(straightRoute(0, 4, W)).toEqual([1, 2, 3, 4]);
+    expect(straightRoute(22, 2, W)).toEqual([17, 12, 7, 2]);
+  });
+
+  it('stairs along a diagonal', () => {
+    expect(straightRoute(0, 12, W)).toEqual([5, 6, 11, 12]);
+  });
+});
+
+describe('interpolatePath', () => {
+  it('prefers the straight line the pointer traced', () => {
+    expect(interpolatePath(10, 14, W, H, OPEN, [10])).toEqual([11, 12, 13, 14]);
+  });
+
+  it('routes around obstacles', () => {
+    expect(interpolatePath(10, 13, W, H, OPEN, [10], { obstacles: [12] })).toEqual([11, 6, 7, 8, 13]);
+  });
+
+  it('does not end on an obstacle', () => {
+    expect(interpolatePath(10, 12, W, H, OPEN, [10], { obstacles: [12] })).toBeNull();
+  });
+
+  it('gives up when the way around detours too far', () => {
+    const wall = [2, 7, 12, 17];
+    expect(interpolatePath(10, 14, W, H, OPEN, [10], { obstacles: wall })).toBeNull();
+    expect(interpolatePath(10, 14, W, H, OPEN, [10], { obstacles: wall, maxDetour: 4 })).toEqual([11, 16, 21, 22, 23, 24, 19, 14]);
+  });
+
+  it('does not cross the drag path itself', () => {
+    expect(interpolatePath(6, 8, W, H, OPEN, [2, 7, 6])).toEqual([11, 12, 13, 8]);
+  });
+});
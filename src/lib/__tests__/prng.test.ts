@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { LATEST_PRNG_VERSION, PRNG } from '../prng';
+
+function draws(prng: PRNG, count: number): number[] {
+  return Array.from({ length: count }, () => prng.random());
+}
+
+describe('PRNG versions', () => {
+  it('keeps v1 on the Java-style hash and Mulberry32', () => {
+    const prng = new PRNG('golden', 1);
+    expect(prng.algorithm).toBe('mulberry32');
+    // 'Aa' and 'BB' share a Java hash, so v1 cannot tell them apart
+    expect(draws(new PRNG('Aa', 1), 4)).toEqual(draws(new PRNG('BB', 1), 4));
+  });
+
+  it('separates seeds that collide under v1', () => {
+    expect(new PRNG('golden', 2).algorithm).toBe('xorshift128+');
+    expect(draws(new PRNG('Aa', 2), 4)).not.toEqual(draws(new PRNG('BB', 2), 4));
+    expect(draws(new PRNG('-7', 2), 4)).not.toEqual(draws(new PRNG('7', 2), 4));
+  });
+
+  it('draws uniformly from [0, 1)', () => {
+    const values = draws(new PRNG('uniform', LATEST_PRNG_VERSION), 20000);
+    const buckets = new Array(10).fill(0);
+    for (const value of values) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+      buckets[Math.floor(value * 10)]++;
+    }
+    for (const bucket of buckets) expect(Math.abs(bucket - 2000)).toBeLessThan(200);
+  });
+
+  it('rejects unknown versions', () => {
+    expect(() => new PRNG('golden', 99)).toThrow('Unsupported share code version: 99');
+  });
+});
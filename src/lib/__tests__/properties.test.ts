@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { Level, Mode } from '@/types';
+import { GenTimeoutError, generateLevel } from '../generator';
+import { MIN_SEGMENT_LENGTH } from '../segments';
+import { getDefaultParams, parseShareCode, serializeShareCode } from '../seed';
+
+// Seeds per mode; the spec's full check is DETERMINISM_SEEDS=1000 npm test
+const SEED_COUNT = parseInt(process.env.DETERMINISM_SEEDS || '20', 10);
+const MODES: Mode[] = [1, 2, 3];
+// Budgets short enough that hard tiers often run out mid-generation
+const SHORT_BUDGETS_MS = [5, 20, 50];
+
+function codesFor(mode: Mode): string[] {
+  return Array.from({ length: SEED_COUNT }, (_, i) =>
+    serializeShareCode({ ...getDefaultParams(mode, 'medium'), seed: `prop${i}` })
+  );
+}
+
+function adjacent(level: Level, a: number, b: number): boolean {
+  return Math.abs(a % level.w - b % level.w) + Math.abs(Math.floor(a / level.w) - Math.floor(b / level.w)) === 1;
+}
+
+// Open cells reachable from the first open cell, stepping between open neighbours
+function reachableOpenCells(level: Level): number {
+  const first = level.open.indexOf(1);
+  if (first < 0) return 0;
+  const seen = new Set([first]);
+  const queue = [first];
+  while (queue.length > 0) {
+    const cell = queue.pop()!;
+    for (const next of [cell - 1, cell + 1, cell - level.w, cell + level.w]) {
+      if (next < 0 || next >= level.open.length || level.open[next] !== 1) continue;
+      if (seen.has(next) || !adjacent(level, cell, next)) continue;
+      seen.add(next);
+      queue.push(next);
+    }
+  }
+  return seen.size;
+}
+
+describe.each(MODES)('mode %i', mode => {
+  const codes = codesFor(mode);
+
+  it('generates the same level for the same share code', () => {
+    for (const code of codes) {
+      const first = generateLevel(parseShareCode(code), { deadline: Infinity });
+      const second = generateLevel(parseShareCode(code), { deadline: Infinity });
+      expect(second, code).toEqual(first);
+    }
+  });
+
+  it('yields the same level under a short deadline, or a gen-timeout', () => {
+    for (let i = 0; i < 5; i++) {
+      const code = serializeShareCode({ ...getDefaultParams(mode, 'hard'), seed: `budget${i}` });
+      const unbounded = generateLevel(parseShareCode(code), { deadline: Infinity });
+      for (const budget of SHORT_BUDGETS_MS) {
+        try {
+          const level = generateLevel(parseShareCode(code), { deadline: Date.now() + budget });
+          expect(level, `${code} in ${budget} ms`).toEqual(unbounded);
+        } catch (error) {
+          expect(error, `${code} in ${budget} ms`).toBeInstanceOf(GenTimeoutError);
+        }
+      }
+    }
+  });
+
+  it('round-trips its share codes', () => {
+    for (const code of codes) {
+      expect(serializeShareCode(parseShareCode(code))).toBe(code);
+    }
+  });
+
+  it('covers every open cell exactly once with connected paths', () => {
+    for (const code of codes) {
+      const level = generateLevel(parseShareCode(code), { deadline: Infinity });
+      const paths = level.solutionPaths || [];
+      const owner = new Map<number, number>();
+
+      paths.forEach((path, color) => {
+        for (const cell of path) {
+          expect(level.open[cell], `${code}: cell ${cell} is a hole`).toBe(1);
+          expect(owner.has(cell), `${code}: cell ${cell} is covered twice`).toBe(false);
+          owner.set(cell, color);
+        }
+        for (let i = 1; i < path.length; i++) {
+          expect(adjacent(level, path[i - 1], path[i]), `${code}: color ${color} jumps at step ${i}`).toBe(true);
+        }
+      });
+
+      const openCount = level.open.reduce((sum, cell) => sum + cell, 0);
+      expect(owner.size, `${code}: uncovered cells`).toBe(openCount);
+      expect(reachableOpenCells(level), `${code}: the region is split`).toBe(openCount);
+      expect(level.solution).toEqual(paths.flat());
+    }
+  });
+
+  it('reveals starts and pairs at the path ends', () => {
+    for (const code of codes) {
+      const level = generateLevel(parseShareCode(code), { deadline: Infinity });
+      const paths = level.solutionPaths || [];
+      if (mode !== 1) {
+        for (const path of paths) expect(path.length).toBeGreaterThanOrEqual(MIN_SEGMENT_LENGTH);
+      }
+
+      if (mode === 3) {
+        expect(level.pairs).toHaveLength(paths.length);
+        for (const pair of level.pairs || []) {
+          const path = paths[pair.color];
+          expect([pair.a, pair.b], code).toEqual([path[0], path[path.length - 1]]);
+        }
+      } else {
+        expect(level.starts).toHaveLength(paths.length);
+        for (const start of level.starts) expect(start.i, code).toBe(paths[start.color][0]);
+      }
+    }
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { MIN_SEGMENT_LENGTH } from '../segments';
+import { parseShareCode } from '../seed';
+
+describe('advanced share-code tokens', () => {
+  it('parses valid tokens', () => {
+    expect(parseShareCode('#fr=0.4;tr=2.5;cp=0.3;lmin=4;lmax=9;sp=boundary')).toEqual({
+      fr: 0.4,
+      tr: 2.5,
+      cp: 0.3,
+      lmin: 4,
+      lmax: 9,
+      sp: 'boundary'
+    });
+  });
+
+  it('ignores numbers that do not parse', () => {
+    const params = parseShareCode('#fr=abc;tr=NaN;cp=x;lmin=abc;lmax=-');
+    for (const key of ['fr', 'tr', 'cp', 'lmin', 'lmax'] as const) {
+      expect(params[key], key).toBeUndefined();
+    }
+  });
+
+  it('keeps segment lengths at least MIN_SEGMENT_LENGTH', () => {
+    expect(parseShareCode('#lmin=1;lmax=0')).toEqual({ lmin: MIN_SEGMENT_LENGTH, lmax: MIN_SEGMENT_LENGTH });
+  });
+
+  it('raises lmax to lmin', () => {
+    expect(parseShareCode('#lmin=8;lmax=5')).toEqual({ lmin: 8, lmax: 8 });
+  });
+
+  it('ignores unknown start placements', () => {
+    expect(parseShareCode('#sp=corner').sp).toBeUndefined();
+    expect(parseShareCode('#sp=interior').sp).toBe('interior');
+  });
+});
@@ -0,0 +1,386 @@
+import { DeductionRule, DeductionRating, Level } from '@/types';
+
+// Rules in the order a player reaches for them, cheapest first
+const RULE_ORDER: DeductionRule[] = ['forced-exit', 'dead-end', 'corridor', 'two-by-two', 'cut-vertex'];
+
+// Effort per application; a guess costs more than any deduction
+const RULE_EFFORT: Record<DeductionRule, number> = {
+  'forced-exit': 1,
+  'dead-end': 2,
+  'corridor': 2,
+  'two-by-two': 3,
+  'cut-vertex': 5
+};
+// A guess between two viable exits; each doubling of the choice adds as much
+const GUESS_EFFORT = 8;
+// Mean effort per drawn cell that rates 0 and 10, per mode: free-ended
+// paths leave far more open choices than Flow Free pairs
+const MODE_EFFORT_RANGE: Record<number, [number, number]> = {
+  1: [4.6, 6.6],
+  2: [5, 6.6],
+  3: [1.5, 4]
+};
+
+interface Head {
+  color: number;
+  side: 0 | 1; // 0 grows from the start (pair end a), 1 from pair end b
+  cell: number;
+}
+
+interface Move {
+  head: Head;
+  cell: number;
+}
+
+interface DeductionState {
+  mode: number;
+  w: number;
+  h: number;
+  paths: number[][]; // the level's own solution, one path per color
+  owner: Int16Array; // -1 = free, -2 = blocked, otherwise the owning color
+  ends: [number, number][]; // per color: path index of each head
+  free: number;
+}
+
+/**
+ * Rates a level by solving it the way a player would
+ *
+ * Only human deductions are applied, cheapest first: a head with a single
+ * exit, a free cell that only one head can reach, a 1-wide corridor that a
+ * path must run through, never closing a 2x2 block of one color, and a
+ * one-step lookahead that rejects exits cutting off a pocket. When none
+ * applies, the player has to guess; the guess follows the level's own
+ * solution from the head with the fewest exits. A deduction that disagrees
+ * with that solution (possible only on levels with several solutions) is
+ * not taken.
+ */
+export function rateLevel(level: Level): DeductionRating {
+  const state = createState(level);
+  const rules: Partial<Record<DeductionRule, number>> = {};
+  let guesses = 0;
+  let effort = 0;
+  let steps = 0;
+
+  for (;;) {
+    const heads = liveHeads(state);
+    if (heads.length === 0) break;
+
+    const deduction = findDeduction(state, heads);
+    if (deduction) {
+      rules[deduction.rule] = (rules[deduction.rule] ?? 0) + 1;
+      effort += RULE_EFFORT[deduction.rule];
+      applyMove(state, deduction.move);
+    } else {
+      // Only a choice between viable exits is a guess; a lone exit that no
+      // sound rule forces (a Mode 2 path may stop) costs a plain step
+      const guess = guessMove(state, heads);
+      if (guess.viable > 1) {
+        guesses++;
+        effort += GUESS_EFFORT * Math.log2(guess.viable);
+      } else {
+        effort += 1;
+      }
+      applyMove(state, guess.move);
+    }
+    steps++;
+  }
+
+  const [low, high] = MODE_EFFORT_RANGE[state.mode] ?? MODE_EFFORT_RANGE[1];
+  const score = steps > 0 ? Math.max(0, Math.min(10, (10 * (effort / steps - low)) / (high - low))) : 0;
+  return { rules, guesses, score: Math.round(score * 10) / 10 };
+}
+
+/**
+ * Maps a 0-10 rating onto the tier names shown to players
+ */
+export function ratingLabel(score: number): string {
+  if (score < 3) return 'Easy';
+  if (score < 5) return 'Medium';
+  if (score < 7) return 'Hard';
+  return 'Expert';
+}
+
+function createState(level: Level): DeductionState {
+  const { mode, w, h, open } = level;
+  const paths = level.solutionPaths || [];
+  const owner = new Int16Array(open.length);
+  let free = 0;
+  for (let i = 0; i < open.length; i++) {
+    owner[i] = open[i] === 1 ? -1 : -2;
+    if (open[i] === 1) free++;
+  }
+
+  // Revealed cells: each start, and in Mode 3 both pair ends
+  const ends: [number, number][] = paths.map((path, color) => {
+    const last = path.length - 1;
+    owner[path[0]] = color;
+    free--;
+    if (mode === 3) {
+      owner[path[last]] = color;
+      free--;
+    }
+    return [0, mode === 3 ? last : last + 1];
+  });
+
+  return { mode, w, h, paths, owner, ends, free };
+}
+
+function isDone(state: DeductionState, color: number): boolean {
+  const [a, b] = state.ends[color];
+  return state.mode === 3 ? a >= b : a === state.paths[color].length - 1;
+}
+
+/**
+ * Heads of the colors still being drawn. In Modes 1/2 a player cannot see
+ * that a path has reached its end, so every head stays live until the
+ * board is covered.
+ */
+function liveHeads(state: DeductionState): Head[] {
+  const heads: Head[] = [];
+  const covered = state.free === 0;
+  state.paths.forEach((path, color) => {
+    const [a, b] = state.ends[color];
+    if (state.mode === 3) {
+      if (isDone(state, color)) return;
+      heads.push({ color, side: 0, cell: path[a] }, { color, side: 1, cell: path[b] });
+    } else if (!covered) {
+      heads.push({ color, side: 0, cell: path[a] });
+    }
+  });
+  return heads;
+}
+
+/**
+ * The cell the solution takes next from this head (its partner's cell when
+ * a Mode 3 pair is about to join)
+ */
+function solutionNext(state: DeductionState, head: Head): number | undefined {
+  const [a, b] = state.ends[head.color];
+  const path = state.paths[head.color];
+  return head.side === 0 ? path[a + 1] : path[b - 1];
+}
+
+/**
+ * True when the move steps a Mode 3 head onto its partner, completing the pair
+ */
+function isJoin(state: DeductionState, move: Move): boolean {
+  if (state.mode !== 3) return false;
+  const ends = state.ends[move.head.color];
+  return move.cell === state.paths[move.head.color][ends[1 - move.head.side]];
+}
+
+/**
+ * Draws a move that follows the solution
+ */
+function applyMove(state: DeductionState, move: Move): void {
+  const { head, cell } = move;
+  const ends = state.ends[head.color];
+  if (isJoin(state, move)) {
+    ends[0] = ends[1];
+    return;
+  }
+
+  state.owner[cell] = head.color;
+  state.free--;
+  if (head.side === 0) ends[0]++;
+  else ends[1]--;
+}
+
+function neighbors(state: DeductionState, i: number): number[] {
+  const { w, h } = state;
+  const x = i % w;
+  const y = Math.floor(i / w);
+  const result: number[] = [];
+  if (x > 0) result.push(i - 1);
+  if (x < w - 1) result.push(i + 1);
+  if (y > 0) result.push(i - w);
+  if (y < h - 1) result.push(i + w);
+  return result;
+}
+
+/**
+ * Where a head may go: free neighbours, plus its partner when adjacent
+ */
+function exits(state: DeductionState, head: Head): number[] {
+  const [a, b] = state.ends[head.color];
+  const partner = state.mode === 3 ? state.paths[head.color][head.side === 0 ? b : a] : -1;
+  return neighbors(state, head.cell).filter(n => state.owner[n] === -1 || n === partner);
+}
+
+function findDeduction(state: DeductionState, heads: Head[]): { rule: DeductionRule; move: Move } | null {
+  for (const rule of RULE_ORDER) {
+    for (const move of RULES[rule](state, heads)) {
+      if (solutionNext(state, move.head) === move.cell) return { rule, move };
+    }
+  }
+  return null;
+}
+
+const RULES: Record<DeductionRule, (state: DeductionState, heads: Head[]) => Move[]> = {
+  // A head with one way out must take it (Mode 2 paths may stop instead)
+  'forced-exit': (state, heads) => {
+    if (state.mode === 2) return [];
+    return heads.flatMap(head => {
+      const options = exits(state, head);
+      return options.length === 1 ? [{ head, cell: options[0] }] : [];
+    });
+  },
+
+  // Modes 1/2: a free cell only one head can reach is where that path goes
+  'dead-end': (state, heads) => {
+    if (state.mode === 3) return [];
+    return freeCells(state).flatMap(cell => {
+      const access = accessibleFrom(state, heads, cell);
+      return access.cells === 1 && access.heads.length === 1 ? [{ head: access.heads[0], cell }] : [];
+    });
+  },
+
+  // Mode 3: every free cell is passed through, so a cell with two ways in
+  // must connect to both, including any head among them
+  'corridor': (state, heads) => {
+    if (state.mode !== 3) return [];
+    return freeCells(state).flatMap(cell => {
+      const access = accessibleFrom(state, heads, cell);
+      return access.cells === 2 ? access.heads.map(head => ({ head, cell })) : [];
+    });
+  },
+
+  // Mode 3: a path never fills a 2x2 block by itself
+  'two-by-two': (state, heads) => {
+    if (state.mode !== 3) return [];
+    return heads.flatMap(head => {
+      const options = exits(state, head);
+      const open = options.filter(cell => !closesSquare(state, head.color, cell));
+      return open.length === 1 && options.length > 1 ? [{ head, cell: open[0] }] : [];
+    });
+  },
+
+  // One-step lookahead: exits that cut off a pocket are ruled out
+  'cut-vertex': (state, heads) => heads.flatMap(head => {
+    const options = exits(state, head);
+    if (options.length < 2) return [];
+    const viable = options.filter(cell => !strands(state, heads, { head, cell }));
+    return viable.length === 1 ? [{ head, cell: viable[0] }] : [];
+  })
+};
+
+function freeCells(state: DeductionState): number[] {
+  const cells: number[] = [];
+  for (let i = 0; i < state.owner.length; i++) {
+    if (state.owner[i] === -1) cells.push(i);
+  }
+  return cells;
+}
+
+/**
+ * Ways into a free cell: free neighbours and live heads
+ */
+function accessibleFrom(state: DeductionState, heads: Head[], cell: number): { cells: number; heads: Head[] } {
+  let cells = 0;
+  const reaching: Head[] = [];
+  for (const n of neighbors(state, cell)) {
+    if (state.owner[n] === -1) {
+      cells++;
+      continue;
+    }
+    const adjacent = heads.filter(head => head.cell === n);
+    if (adjacent.length > 0) {
+      cells++;
+      reaching.push(...adjacent);
+    }
+  }
+  return { cells, heads: reaching };
+}
+
+function closesSquare(state: DeductionState, color: number, cell: number): boolean {
+  if (state.owner[cell] !== -1) return false;
+  const { w } = state;
+  const x = cell % w;
+  const y = Math.floor(cell / w);
+  for (const [dx, dy] of [[-1, -1], [1, -1], [-1, 1], [1, 1]]) {
+    const nx = x + dx;
+    const ny = y + dy;
+    if (nx < 0 || nx >= w || ny < 0 || ny >= state.h) continue;
+    const corners = [ny * w + nx, y * w + nx, ny * w + x];
+    if (corners.every(c => state.owner[c] === color)) return true;
+  }
+  return false;
+}
+
+/**
+ * True when taking the move leaves free cells no path can still cover:
+ * a pocket out of reach of the heads that could fill it (both ends of one
+ * pair in Mode 3, the single head in Mode 1), or in Mode 3 a free cell with
+ * fewer than two ways in
+ */
+function strands(state: DeductionState, heads: Head[], move: Move): boolean {
+  // The move may leave the solution, so it is tried on the head cells alone
+  if (isJoin(state, move)) {
+    return hasStrandedPocket(state, heads.filter(head => head.color !== move.head.color));
+  }
+
+  state.owner[move.cell] = move.head.color;
+  const result = hasStrandedPocket(state, heads.map(head => head === move.head ? { ...head, cell: move.cell } : head));
+  state.owner[move.cell] = -1;
+  return result;
+}
+
+function hasStrandedPocket(state: DeductionState, heads: Head[]): boolean {
+  const { owner } = state;
+  const seen = new Uint8Array(owner.length);
+  let pockets = 0;
+
+  for (let start = 0; start < owner.length; start++) {
+    if (owner[start] !== -1 || seen[start]) continue;
+    pockets++;
+
+    // Colors with a head on this pocket's rim, and how many of their heads
+    const touching = new Map<number, Set<number>>();
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      if (state.mode === 3 && accessibleFrom(state, heads, cell).cells < 2) return true;
+      for (const n of neighbors(state, cell)) {
+        if (owner[n] === -1) {
+          if (!seen[n]) {
+            seen[n] = 1;
+            stack.push(n);
+          }
+          continue;
+        }
+        for (const head of heads) {
+          if (head.cell !== n) continue;
+          const sides = touching.get(head.color) ?? new Set<number>();
+          sides.add(head.side);
+          touching.set(head.color, sides);
+        }
+      }
+    }
+
+    const fillable = state.mode === 3
+      ? [...touching.values()].some(sides => sides.size === 2)
+      : touching.size > 0;
+    if (!fillable) return true;
+  }
+
+  return state.mode === 1 && pockets > 1;
+}
+
+/**
+ * A guess from the head with the fewest viable exits (those the lookahead
+ * keeps), following the solution
+ */
+function guessMove(state: DeductionState, heads: Head[]): { move: Move; viable: number } {
+  let best: { move: Move; viable: number } | null = null;
+  for (const head of heads) {
+    const next = solutionNext(state, head);
+    if (next === undefined || isDone(state, head.color)) continue;
+    const viable = exits(state, head).filter(cell => !strands(state, heads, { head, cell })).length;
+    if (!best || viable < best.viable) {
+      best = { move: { head, cell: next }, viable };
+    }
+  }
+  if (!best) throw new Error('Deduction: no head can follow the solution');
+  return best;
+}
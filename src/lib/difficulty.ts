@@ -0,0 +1,89 @@
+import { DifficultyMetrics, DifficultyTier, GameParams, Mode } from '@/types';
+
+export type MetricBand = [number, number];
+
+// The metrics a level can be steered on; the rest follow from the size presets
+export type TierBands = Partial<Record<
+  'forcedMoveRatio' | 'branchingFactor' | 'turnRate' | 'intertwineIndex' | 'corridorsPercent',
+  MetricBand
+>>;
+
+/**
+ * Per-tier metric bands, laid out like DEFAULT_PARAMS. Easy levels have
+ * many forced moves, little branching and few turns; hard levels the
+ * opposite, with the colors more intertwined. The ranges sit around the
+ * spread the presets produce, so every band is reachable by moving ends.
+ */
+export const DIFFICULTY_BANDS: Record<DifficultyTier, Record<Mode, TierBands>> = {
+  easy: {
+    1: { forcedMoveRatio: [0.38, 1], branchingFactor: [0, 1.77], turnRate: [0, 4.8] },
+    2: { forcedMoveRatio: [0.42, 1], branchingFactor: [0, 1.75], turnRate: [0, 4.5], intertwineIndex: [0, 0.55] },
+    3: { forcedMoveRatio: [0.52, 1], branchingFactor: [0, 1.6], turnRate: [0, 4.8], intertwineIndex: [0, 0.65] }
+  },
+  medium: {
+    1: { forcedMoveRatio: [0.32, 0.44], turnRate: [3.5, 6] },
+    2: { forcedMoveRatio: [0.35, 0.45], turnRate: [3.5, 6], intertwineIndex: [0.4, 0.6] },
+    3: { forcedMoveRatio: [0.44, 0.54], turnRate: [4.2, 6], intertwineIndex: [0.5, 0.7] }
+  },
+  hard: {
+    1: { forcedMoveRatio: [0, 0.34], branchingFactor: [1.79, 4], turnRate: [5, 10] },
+    2: { forcedMoveRatio: [0, 0.37], branchingFactor: [1.79, 4], turnRate: [5, 10], intertwineIndex: [0.42, 1] },
+    3: { forcedMoveRatio: [0, 0.5], branchingFactor: [1.63, 4], turnRate: [5, 10], intertwineIndex: [0.5, 1] }
+  }
+};
+
+// Typical spread of each metric between seeds, to weigh misses evenly
+const METRIC_SCALES: Record<keyof TierBands, number> = {
+  forcedMoveRatio: 0.1,
+  branchingFactor: 0.05,
+  turnRate: 1,
+  intertwineIndex: 0.1,
+  corridorsPercent: 0.05
+};
+
+/**
+ * The bands a level is steered into: its tier's, with any metric pinned in
+ * the share code (fr, tr, cp) narrowed to half a METRIC_SCALES unit either
+ * side of the pinned value. A cp pin is best-effort: no move changes the
+ * region, so it only decides between sub-seeds (see movableBands).
+ * @returns The bands, or undefined when nothing is targeted
+ */
+export function resolveBands(params: GameParams, mode: Mode): TierBands | undefined {
+  const bands: TierBands = { ...(params.diff ? DIFFICULTY_BANDS[params.diff]?.[mode] : undefined) };
+  const pins: [keyof TierBands, number | undefined][] = [
+    ['forcedMoveRatio', params.fr],
+    ['turnRate', params.tr],
+    ['corridorsPercent', params.cp]
+  ];
+  for (const [key, value] of pins) {
+    if (value === undefined || Number.isNaN(value)) continue;
+    const tolerance = METRIC_SCALES[key] / 2;
+    bands[key] = [value - tolerance, value + tolerance];
+  }
+  return Object.keys(bands).length > 0 ? bands : undefined;
+}
+
+/**
+ * The bands that moving starts, cut points and pair ends can steer towards.
+ * corridorsPercent depends only on the open mask, which no move changes.
+ */
+export function movableBands(bands: TierBands): TierBands {
+  const movable = { ...bands };
+  delete movable.corridorsPercent;
+  return movable;
+}
+
+/**
+ * How far the metrics sit outside the bands, each miss measured in
+ * METRIC_SCALES units; 0 means every banded metric is inside its band
+ */
+export function bandDistance(metrics: DifficultyMetrics, bands: TierBands): number {
+  let distance = 0;
+  for (const [key, band] of Object.entries(bands) as [keyof TierBands, MetricBand][]) {
+    const value = metrics[key];
+    if (value === undefined) continue;
+    const [low, high] = band;
+    distance += Math.max(0, low - value, value - high) / METRIC_SCALES[key];
+  }
+  return distance;
+}
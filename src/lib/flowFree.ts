@@ -0,0 +1,126 @@
+import { PRNG } from './prng';
+import { SegmentLengths, segmentPath } from './segments';
+
+// Flow Free pairs (M3-FF)
+const MAX_PAIR_ATTEMPTS = 50;
+const MIN_PAIR_DISTANCE = 3;
+
+export interface FlowPartition {
+  path: number[]; // Hamiltonian path over the whole rectangle
+  segments: number[][]; // one segment per color, running from pair end a to b
+}
+
+/**
+ * Cuts a randomized Hamiltonian path of the solid w x h rectangle into k
+ * segments whose ends become the color pairs
+ * @returns The partition, or null when no non-trivial cut was found
+ */
+export function generateFlowPartition(
+  w: number,
+  h: number,
+  k: number,
+  prng: PRNG,
+  lengths: SegmentLengths = {}
+): FlowPartition | null {
+  const open = new Uint8Array(w * h).fill(1);
+
+  // A serpentine is always Hamiltonian on a rectangle; backbite moves
+  // shuffle it into an organic path before every cut attempt
+  let path = serpentinePath(w, h);
+  for (let attempt = 0; attempt < MAX_PAIR_ATTEMPTS; attempt++) {
+    path = randomizePath(path, open, w, h, prng, path.length * 20);
+    const segments = segmentPath(path, k, prng, lengths);
+
+    if (isNonTrivialPartition(segments, w)) {
+      return { path, segments };
+    }
+  }
+
+  return null;
+}
+
+function serpentinePath(w: number, h: number): number[] {
+  const path: number[] = [];
+  for (let y = 0; y < h; y++) {
+    for (let i = 0; i < w; i++) {
+      const x = y % 2 === 0 ? i : w - 1 - i;
+      path.push(y * w + x);
+    }
+  }
+  return path;
+}
+
+/**
+ * Backbite moves: the tail steps onto one of its other grid neighbours and
+ * the loop that closes is reversed, so the path stays Hamiltonian
+ */
+function randomizePath(
+  path: number[],
+  open: Uint8Array,
+  w: number,
+  h: number,
+  prng: PRNG,
+  moves: number
+): number[] {
+  const p = path.slice();
+  const n = p.length;
+  if (n < 3) return p;
+
+  const pos = new Int32Array(w * h).fill(-1);
+  const reindex = (from: number, to: number) => {
+    for (let i = from; i <= to; i++) pos[p[i]] = i;
+  };
+  const reverse = (from: number, to: number) => {
+    for (let i = from, j = to; i < j; i++, j--) {
+      const t = p[i];
+      p[i] = p[j];
+      p[j] = t;
+    }
+    reindex(from, to);
+  };
+  reindex(0, n - 1);
+
+  for (let move = 0; move < moves; move++) {
+    // Alternate which end bites by flipping the whole path
+    if (prng.random() < 0.5) reverse(0, n - 1);
+
+    const tail = p[n - 1];
+    const x = tail % w;
+    const y = Math.floor(tail / w);
+    const candidates: number[] = [];
+    if (x > 0) candidates.push(tail - 1);
+    if (x < w - 1) candidates.push(tail + 1);
+    if (y > 0) candidates.push(tail - w);
+    if (y < h - 1) candidates.push(tail + w);
+
+    const bites = candidates.filter(c => open[c] === 1 && c !== p[n - 2]);
+    if (bites.length === 0) continue;
+
+    reverse(pos[prng.choice(bites)] + 1, n - 1);
+  }
+
+  return p;
+}
+
+/**
+ * Anti-triviality rules for Flow Free: pair ends must be at least
+ * MIN_PAIR_DISTANCE apart, no segment may be boxed inside a 2x2 area,
+ * and segment lengths must not be near-uniform
+ */
+export function isNonTrivialPartition(segments: number[][], w: number): boolean {
+  for (const segment of segments) {
+    const a = segment[0];
+    const b = segment[segment.length - 1];
+    const distance = Math.abs(a % w - b % w) + Math.abs(Math.floor(a / w) - Math.floor(b / w));
+    if (distance < MIN_PAIR_DISTANCE) return false;
+
+    const xs = segment.map(i => i % w);
+    const ys = segment.map(i => Math.floor(i / w));
+    const spanX = Math.max(...xs) - Math.min(...xs) + 1;
+    const spanY = Math.max(...ys) - Math.min(...ys) + 1;
+    if (spanX <= 2 && spanY <= 2) return false;
+  }
+
+  const distinctLengths = new Set(segments.map(segment => segment.length)).size;
+  return distinctLengths >= Math.ceil(segments.length / 2);
+}
@@ -0,0 +1,482 @@
+import { GameParams, Level, StartPlacement, UniquenessPolicy } from '@/types';
+import { PRNG } from './prng';
+import { generateIRRegion } from './irRegion';
+import { GEN_TIME_BUDGET_MS, GenTimeoutError, generateHamiltonianPath } from './hamiltonian';
+import {
+  MIN_SEGMENT_LENGTH,
+  SegmentLengths,
+  followsPlacement,
+  orientSegments,
+  placeStart,
+  segmentPath
+} from './segments';
+import { generateFlowPartition, isNonTrivialPartition } from './flowFree';
+import { calculateMetrics } from './metrics';
+import { countSolutions } from './solver';
+import { TierBands, bandDistance, movableBands, resolveBands } from './difficulty';
+import { rateLevel } from './deduction';
+
+export { GenTimeoutError };
+
+const MAX_GENERATION_ATTEMPTS = 10;
+// Uniqueness repair: hill-climb on the solution count, counted up to a
+// small cap on a fixed node budget so the outcome is machine-independent
+const MAX_REPAIR_STEPS = 40;
+const REPAIR_COUNT_CAP = 32;
+const COUNT_NODE_LIMIT = 50000;
+// Counting solutions costs far more than generating, so the default
+// deadline is longer whenever a uniqueness policy is on
+const UNIQUENESS_TIME_BUDGET_MS = 3000;
+// Difficulty targeting: hill-climb on the distance to the tier's bands
+const MAX_TARGETING_STEPS = 200;
+
+// What a level must keep while its ends are moved
+interface LevelConstraints {
+  bands?: TierBands; // tier bands plus pinned metrics
+  lengths: SegmentLengths;
+  placement: StartPlacement;
+}
+
+export interface GenerateOptions {
+  /** Date.now() value after which generation aborts with GenTimeoutError */
+  deadline?: number;
+  /** 'reject' retries levels with several solutions, 'repair' first tries moving their ends */
+  uniqueness?: UniquenessPolicy;
+}
+
+/**
+ * Thrown when no attempt produced a level whose solution verifies ("gen-failed")
+ */
+export class GenFailedError extends Error {
+  constructor(message: string = `No solvable level found after ${MAX_GENERATION_ATTEMPTS} attempts`) {
+    super(message);
+    this.name = 'GenFailedError';
+  }
+}
+
+/**
+ * Attempt 0 uses the seed itself; retries derive sub-seeds from it, so the
+ * same share code still walks the same sequence of attempts. The share
+ * code's `v` picks the PRNG (see PRNG_VERSIONS); links without one are v1.
+ */
+export function deriveSeed(seed: string, attempt: number): string {
+  return attempt === 0 ? seed : `${seed}#${attempt}`;
+}
+
+/**
+ * Generates a level for the given parameters. Runs synchronously, so the
+ * worker, the main thread and Node scripts all share this entry point.
+ * @throws GenTimeoutError when the deadline passes
+ * @throws GenFailedError when no attempt yields a verified (and, unless
+ * uniqueness is 'off', uniquely solvable) level
+ */
+export function generateLevel(params: GameParams, options: GenerateOptions = {}): Level {
+  const uniqueness = options.uniqueness ?? 'off';
+  const deadline = options.deadline
+    ?? Date.now() + (uniqueness === 'off' ? GEN_TIME_BUDGET_MS : UNIQUENESS_TIME_BUDGET_MS);
+  const seed = params.seed || 'default';
+  const mode = params.m || 1;
+  if (mode !== 1 && mode !== 2 && mode !== 3) {
+    throw new Error(`Unknown mode: ${mode}`);
+  }
+
+  // A tier (or pinned metrics) steers each attempt into its metric bands;
+  // when no attempt lands inside them, the closest level is used instead
+  const constraints: LevelConstraints = {
+    bands: resolveBands(params, mode),
+    lengths: { min: params.lmin, max: params.lmax },
+    placement: params.sp ?? 'random'
+  };
+  const { bands } = constraints;
+  let closest: { level: Level; distance: number } | null = null;
+
+  // The deadline only ever aborts generation; it never changes the outcome,
+  // so the same share code still yields the same level (or a gen-timeout)
+  for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
+    if (Date.now() > deadline) throw new GenTimeoutError();
+    const prng = new PRNG(deriveSeed(seed, attempt), params.v ?? 1);
+    const result = generateAttempt(params, constraints, uniqueness, prng, deadline);
+    if (!result) continue;
+    if (!bands) return withRating(result);
+
+    const distance = bandDistance(result.metrics, bands);
+    if (distance === 0) return withRating(result);
+    if (!closest || distance < closest.distance) closest = { level: result, distance };
+  }
+
+  if (closest) return withRating(closest.level);
+  throw new GenFailedError();
+}
+
+/**
+ * One generation attempt: a verified level, steered into the tier's bands
+ * and held to the uniqueness policy
+ * @returns The level, or null when this attempt yields none
+ */
+function generateAttempt(
+  params: GameParams,
+  constraints: LevelConstraints,
+  uniqueness: UniquenessPolicy,
+  prng: PRNG,
+  deadline: number
+): Level | null {
+  // Flow Free runs on the full rectangle; Classic and Multi modes
+  // both start from an irregular region
+  const level = params.m === 3
+    ? generateFlowLevel(params, constraints, prng)
+    : generatePathLevel(params, constraints, prng, deadline);
+
+  if (!level || !verifyLevel(level)) return null;
+
+  const { bands } = constraints;
+  const targeted = bands ? targetDifficulty(level, bands, constraints, prng, deadline) : level;
+  return uniqueness === 'off'
+    ? targeted
+    : enforceUniqueness(targeted, uniqueness, constraints, prng, deadline);
+}
+
+/**
+ * The deduction rating is the costliest metric, so only the final level gets it
+ */
+function withRating(level: Level): Level {
+  return { ...level, metrics: { ...level.metrics, rating: rateLevel(level) } };
+}
+
+/**
+ * Modes 1 and 2: irregular region, Hamiltonian path, then segmentation
+ */
+function generatePathLevel(
+  params: GameParams,
+  constraints: LevelConstraints,
+  prng: PRNG,
+  deadline: number
+): Level | null {
+  const w = params.w || 10;
+  const h = params.h || 10;
+  const holeDensity = params.hd || 0.1;
+  const mode = params.m || 1;
+
+  const region = generateIRRegion(w, h, prng, 1 - holeDensity);
+  const hamPath = generateHamiltonianPath(region, prng, 3, deadline);
+  if (!hamPath.success || hamPath.path.length === 0) return null;
+
+  // The region mask is already laid out like Level.open
+  const indexPath = hamPath.path.map(([x, y]) => y * w + x);
+
+  // Mode 1 is a single segment starting at the head of the path;
+  // Mode 2 cuts the path into K segments (M2-P)
+  const segments = (mode === 1
+    ? [indexPath]
+    : orientSegments(segmentPath(indexPath, params.k || 1, prng, constraints.lengths), prng)
+  ).map(segment => placeStart(segment, constraints.placement, region.open, w));
+
+  return withSegments({
+    v: 1,
+    mode,
+    w,
+    h,
+    open: region.open,
+    seed: params.seed || 'default',
+    params: toLevelParams(params)
+  }, segments);
+}
+
+/**
+ * Mode 3: solid rectangle whose Hamiltonian path is cut into K pairs (M3-FF)
+ */
+function generateFlowLevel(params: GameParams, constraints: LevelConstraints, prng: PRNG): Level | null {
+  const w = params.w || 7;
+  const h = params.h || 7;
+  const k = params.k || 1;
+
+  const partition = generateFlowPartition(w, h, k, prng, constraints.lengths);
+  if (!partition) return null;
+
+  return withSegments({
+    v: 1,
+    mode: 3,
+    w,
+    h,
+    // Solid rectangle: every cell is open
+    open: new Uint8Array(w * h).fill(1),
+    seed: params.seed || 'default',
+    params: toLevelParams(params)
+  }, partition.segments);
+}
+
+type LevelLayout = Omit<Level, 'starts' | 'pairs' | 'solution' | 'solutionPaths' | 'metrics'>;
+
+/**
+ * Lays the per-color solution segments onto a level: each segment's first
+ * cell is its revealed start, and in Mode 3 its two far ends become the pair.
+ * Metrics are measured along the segments, so they follow any repair.
+ */
+function withSegments(layout: LevelLayout, segments: number[][]): Level {
+  const { open, w, h } = layout;
+  const base = { ...layout, solution: segments.flat(), solutionPaths: segments };
+  if (layout.mode !== 3) {
+    return {
+      ...base,
+      starts: segments.map((segment, color) => ({ color, i: segment[0] })),
+      metrics: calculateMetrics(open, w, h, segments)
+    };
+  }
+
+  const pairs = segments.map((segment, color) => ({
+    color,
+    a: segment[0],
+    b: segment[segment.length - 1]
+  }));
+  return {
+    ...base,
+    metrics: calculateMetrics(open, w, h, segments, pairs.map(pair => pair.b)),
+    starts: pairs.flatMap(pair => [
+      { color: pair.color, i: pair.a },
+      { color: pair.color, i: pair.b }
+    ]),
+    pairs
+  };
+}
+
+/**
+ * Hill-climbs the level towards its tier's movable metric bands (see
+ * movableBands) by moving start cells, cut points and pair ends (see
+ * perturbSegments), keeping moves that do not take the metrics further
+ * from the bands. Only MAX_TARGETING_STEPS ends the climb early, so the
+ * result is the same on every machine; the deadline aborts it.
+ * @returns The level inside the bands, or the closest one reached
+ */
+function targetDifficulty(
+  level: Level,
+  bands: TierBands,
+  constraints: LevelConstraints,
+  prng: PRNG,
+  deadline: number
+): Level {
+  const movable = movableBands(bands);
+  let best = level;
+  let distance = bandDistance(level.metrics, movable);
+
+  for (let step = 0; step < MAX_TARGETING_STEPS && distance > 0; step++) {
+    if (Date.now() > deadline) throw new GenTimeoutError();
+
+    const segments = perturbSegments(best, constraints, prng);
+    if (!segments) break;
+    const candidate = withSegments(best, segments);
+    if (!verifyLevel(candidate)) continue;
+
+    const candidateDistance = bandDistance(candidate.metrics, movable);
+    if (candidateDistance <= distance) {
+      best = candidate;
+      distance = candidateDistance;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Returns the level if its solution is unique. Under 'repair', a
+ * multi-solution level is hill-climbed towards uniqueness by moving the
+ * ends of the colors that the other solutions route differently (see
+ * perturbSegments), keeping moves that do not raise the count nor take the
+ * metrics further from the tier's bands.
+ * @returns The unique level, or null so the caller moves on to the next sub-seed
+ */
+function enforceUniqueness(
+  level: Level,
+  policy: UniquenessPolicy,
+  constraints: LevelConstraints,
+  prng: PRNG,
+  deadline: number
+): Level | null {
+  const { bands } = constraints;
+  let best = level;
+  let ambiguity = measureAmbiguity(level, deadline);
+  if (ambiguity.score === 1) return level;
+  if (policy !== 'repair') return null;
+
+  for (let step = 0; step < MAX_REPAIR_STEPS; step++) {
+    if (Date.now() > deadline) throw new GenTimeoutError();
+
+    const segments = perturbSegments(best, constraints, prng, ambiguity.colors);
+    if (!segments) return null;
+    const candidate = withSegments(best, segments);
+    if (!verifyLevel(candidate)) continue;
+    if (bands && bandDistance(candidate.metrics, bands) > bandDistance(best.metrics, bands)) continue;
+
+    const next = measureAmbiguity(candidate, deadline);
+    if (next.score <= ambiguity.score) {
+      best = candidate;
+      ambiguity = next;
+      if (ambiguity.score === 1) return best;
+    }
+  }
+
+  return null;
+}
+
+interface Ambiguity {
+  score: number; // solutions, or REPAIR_COUNT_CAP when the count did not finish
+  colors: Set<number>; // colors some other solution routes differently
+}
+
+/**
+ * Counts the level's solutions on a fixed node budget. A search stopped by
+ * that budget scores REPAIR_COUNT_CAP, so it is never taken as unique.
+ */
+function measureAmbiguity(level: Level, deadline: number): Ambiguity {
+  const result = countSolutions(level, new Map(), {
+    cap: REPAIR_COUNT_CAP,
+    nodeLimit: COUNT_NODE_LIMIT,
+    deadline
+  });
+  if (!result.complete && result.count < REPAIR_COUNT_CAP && Date.now() > deadline) {
+    throw new GenTimeoutError();
+  }
+
+  const own = level.solutionPaths || [];
+  const colors = new Set<number>();
+  for (const solution of result.solutions) {
+    solution.forEach((path, color) => {
+      if (path.join() !== own[color]?.join()) colors.add(color);
+    });
+  }
+
+  return { score: result.complete ? result.count : REPAIR_COUNT_CAP, colors };
+}
+
+/**
+ * One random move on the level's solution segments:
+ * - flip a segment so its start moves to the other end (Modes 1/2)
+ * - backbite: an end steps onto an adjacent cell of its own segment and
+ *   the loop that closes is reversed, which moves that end elsewhere
+ * - hand an end cell of one segment to an adjacent end of another
+ * Moves touching a preferred color are tried first. Segments stay within
+ * the pinned lengths (and at least MIN_SEGMENT_LENGTH long), Modes 1/2
+ * starts keep their placement policy and Mode 3 partitions stay non-trivial.
+ * @returns The new segments, or null when no move applies
+ */
+function perturbSegments(
+  level: Level,
+  constraints: LevelConstraints,
+  prng: PRNG,
+  preferred: Set<number> = new Set()
+): number[][] | null {
+  const { w, open } = level;
+  const { lengths, placement } = constraints;
+  const minLength = Math.max(MIN_SEGMENT_LENGTH, lengths.min ?? 0);
+  const maxLength = lengths.max ?? Infinity;
+  const segments = level.solutionPaths || [];
+  const moves: { targeted: boolean; apply: () => number[][] }[] = [];
+  const replace = (color: number, segment: number[]) =>
+    segments.map((other, i) => i === color ? segment : other);
+
+  if (level.mode !== 3) {
+    segments.forEach((segment, color) => moves.push({
+      targeted: preferred.has(color),
+      apply: () => replace(color, segment.slice().reverse())
+    }));
+  }
+
+  const adjacent = (a: number, b: number) =>
+    Math.abs(a % w - b % w) + Math.abs(Math.floor(a / w) - Math.floor(b / w)) === 1;
+
+  segments.forEach((segment, color) => {
+    const head = segment[0];
+    const tail = segment[segment.length - 1];
+    for (let p = 2; p < segment.length; p++) {
+      if (adjacent(head, segment[p])) {
+        moves.push({
+          targeted: preferred.has(color),
+          apply: () => replace(color, [...segment.slice(0, p).reverse(), ...segment.slice(p)])
+        });
+      }
+      if (p < segment.length - 1 && adjacent(tail, segment[segment.length - 1 - p])) {
+        const q = segment.length - 1 - p;
+        moves.push({
+          targeted: preferred.has(color),
+          apply: () => replace(color, [...segment.slice(0, q + 1), ...segment.slice(q + 1).reverse()])
+        });
+      }
+    }
+  });
+
+  segments.forEach((from, i) => {
+    if (from.length <= minLength) return;
+    for (const fromHead of [true, false]) {
+      const cell = fromHead ? from[0] : from[from.length - 1];
+      segments.forEach((to, j) => {
+        if (i === j || to.length >= maxLength) return;
+        for (const toHead of [true, false]) {
+          if (!adjacent(cell, toHead ? to[0] : to[to.length - 1])) continue;
+          moves.push({
+            targeted: preferred.has(i) || preferred.has(j),
+            apply: () => segments.map((segment, color) => {
+              if (color === i) return fromHead ? segment.slice(1) : segment.slice(0, -1);
+              if (color === j) return toHead ? [cell, ...segment] : [...segment, cell];
+              return segment;
+            })
+          });
+        }
+      });
+    }
+  });
+
+  // Mode 3 moves must keep the pairs as far apart as generation demanded
+  const ordered = prng.shuffle(moves).sort((a, b) => Number(b.targeted) - Number(a.targeted));
+  for (const move of ordered) {
+    const next = move.apply();
+    if (level.mode === 3
+      ? isNonTrivialPartition(next, w)
+      : next.every(segment => followsPlacement(segment, placement, open, w))) return next;
+  }
+
+  return null;
+}
+
+function toLevelParams(params: GameParams): Level['params'] {
+  const result: Level['params'] = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) result[key] = value;
+  }
+  return result;
+}
+
+/**
+ * Checks a level against its own solution: every open cell is covered
+ * exactly once, each color path steps between adjacent cells, and the
+ * revealed starts (and Flow Free pairs) sit on the path ends
+ */
+export function verifyLevel(level: Level): boolean {
+  const { w, open, solutionPaths } = level;
+  if (!solutionPaths || solutionPaths.length === 0) return false;
+
+  const covered = new Uint8Array(open.length);
+  for (const path of solutionPaths) {
+    if (path.length === 0) return false;
+    for (let i = 0; i < path.length; i++) {
+      const cell = path[i];
+      if (open[cell] !== 1 || covered[cell]) return false;
+      covered[cell] = 1;
+
+      if (i > 0) {
+        const prev = path[i - 1];
+        const distance = Math.abs(prev % w - cell % w) + Math.abs(Math.floor(prev / w) - Math.floor(cell / w));
+        if (distance !== 1) return false;
+      }
+    }
+  }
+  for (let i = 0; i < open.length; i++) {
+    if (open[i] === 1 && !covered[i]) return false;
+  }
+
+  if (level.mode !== 3) {
+    return level.starts.every(start => solutionPaths[start.color]?.[0] === start.i);
+  }
+
+  return (level.pairs || []).every(pair => {
+    const path = solutionPaths[pair.color];
+    return path && path[0] === pair.a && path[path.length - 1] === pair.b;
+  });
+}
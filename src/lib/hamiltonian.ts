@@ -6,14 +6,28 @@ export interface HamiltonianPath {
   success: boolean;
 }
 
+export const GEN_TIME_BUDGET_MS = 200;
+
+/**
+ * Thrown when generation runs past its wall-clock deadline ("gen-timeout")
+ */
+export class GenTimeoutError extends Error {
+  constructor(message: string = `Generation exceeded the ${GEN_TIME_BUDGET_MS} ms budget`) {
+    super(message);
+    this.name = 'GenTimeoutError';
+  }
+}
+
 /**
  * Generates a Hamiltonian path through the given region using strip-and-stitch algorithm
  * Falls back to DFS if strip-and-stitch fails
+ * @param deadline Date.now() value after which generation aborts with GenTimeoutError
  */
 export function generateHamiltonianPath(
   region: IRRegion,
   prng: PRNG,
-  maxAttempts: number = 3
+  maxAttempts: number = 3,
+  deadline: number = Infinity
 ): HamiltonianPath {
   // Try strip-and-stitch first
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
@@ -24,147 +38,244 @@ export function generateHamiltonianPath(
   }
   
   // Fall back to DFS
-  return dfsHamiltonianPath(region, prng);
+  return dfsHamiltonianPath(region, prng, deadline);
+}
+
+const MAX_STITCH_STARTS = 3;
+const RESTITCHES_PER_CELL = 30;
+
+interface RegionMask {
+  open: Uint8Array;
+  width: number;
+  height: number;
+  count: number;
+  adjacency: number[][];
 }
 
 /**
  * Strip-and-stitch algorithm for Hamiltonian path generation
+ *
+ * The region is decomposed into maximal strips (row or column runs). From
+ * the path end, the path steps into a neighbouring strip at a junction cell
+ * (tightest junction first) and sweeps that strip to its far end, which lays
+ * the serpentine pattern. Because the path is a simple sequence every cell
+ * keeps degree <= 2. When the end is stuck, the path backs up to an earlier
+ * junction (see restitch); after a limited number of those the attempt fails
+ * so the caller can regenerate the region.
  */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-function stripAndStitch(region: IRRegion, _prng: PRNG): HamiltonianPath {
-  const cells = Array.from(region.cells).map(c => {
-    const [x, y] = c.split(',').map(Number);
-    return [x - region.bounds.minX, y - region.bounds.minY] as [number, number];
-  });
-  
-  if (cells.length === 0) {
+function stripAndStitch(region: IRRegion, prng: PRNG): HamiltonianPath {
+  const grid = regionToMask(region);
+  
+  if (grid.count === 0 || !isHamiltonianFeasible(grid)) {
     return { path: [], success: false };
   }
   
-  // Create adjacency map
-  const adjacency = new Map<string, [number, number][]>();
-  for (const [x, y] of cells) {
-    const key = `${x},${y}`;
-    const neighbors: [number, number][] = [];
-    
-    for (const [dx, dy] of [[0, 1], [1, 0], [0, -1], [-1, 0]]) {
-      const nx = x + dx;
-      const ny = y + dy;
-      if (region.cells.has(`${nx + region.bounds.minX},${ny + region.bounds.minY}`)) {
-        neighbors.push([nx, ny]);
-      }
+  const starts = pickStartCells(grid, prng, MAX_STITCH_STARTS);
+  const horizontalFirst = prng.random() < 0.5;
+  for (let attempt = 0; attempt < starts.length * 2; attempt++) {
+    const horizontal = attempt % 2 === 0 ? horizontalFirst : !horizontalFirst;
+    const path = stitchFrom(grid, starts[attempt >> 1], horizontal, prng);
+    if (path) {
+      return {
+        path: path.map(i => [i % grid.width, Math.floor(i / grid.width)] as [number, number]),
+        success: true
+      };
     }
+  }
+  
+  return { path: [], success: false };
+}
+
+/**
+ * Adds adjacency lists to the region's open mask
+ */
+function regionToMask(region: IRRegion): RegionMask {
+  const { open, width, height } = region;
+  const adjacency: number[][] = [];
+  let count = 0;
+  for (let i = 0; i < open.length; i++) {
+    adjacency.push([]);
+    if (!open[i]) continue;
+    count++;
     
-    adjacency.set(key, neighbors);
+    const x = i % width;
+    const y = Math.floor(i / width);
+    if (x > 0 && open[i - 1]) adjacency[i].push(i - 1);
+    if (x < width - 1 && open[i + 1]) adjacency[i].push(i + 1);
+    if (y > 0 && open[i - width]) adjacency[i].push(i - width);
+    if (y < height - 1 && open[i + width]) adjacency[i].push(i + width);
   }
   
-  // Create horizontal strips
-  const strips = new Map<number, [number, number][]>();
-  for (const [x, y] of cells) {
-    if (!strips.has(y)) {
-      strips.set(y, []);
-    }
-    strips.get(y)!.push([x, y]);
+  return { open, width, height, count, adjacency };
+}
+
+function cellParity(grid: RegionMask, index: number): number {
+  return (index % grid.width + Math.floor(index / grid.width)) % 2;
+}
+
+function parityBalance(grid: RegionMask): number {
+  let balance = 0;
+  for (let i = 0; i < grid.open.length; i++) {
+    if (grid.open[i]) balance += cellParity(grid, i) === 0 ? 1 : -1;
+  }
+  return balance;
+}
+
+/**
+ * Cheap necessary conditions: the checkerboard colours of a grid path
+ * alternate, so their counts may differ by at most one, and only the two
+ * path ends can be dead-end (degree 1) cells
+ */
+function isHamiltonianFeasible(grid: RegionMask): boolean {
+  let deadEnds = 0;
+  for (let i = 0; i < grid.open.length; i++) {
+    if (!grid.open[i]) continue;
+    if (grid.adjacency[i].length === 0 && grid.count > 1) return false;
+    if (grid.adjacency[i].length === 1) deadEnds++;
   }
   
-  // Sort strips by y-coordinate
-  const sortedStrips = Array.from(strips.entries())
-    .sort((a, b) => a[0] - b[0])
-    .map(([, strip]) => {
-      // Sort cells in each strip by x-coordinate
-      return strip.sort((a, b) => a[0] - b[0]);
-    });
+  return Math.abs(parityBalance(grid)) <= 1 && deadEnds <= 2;
+}
+
+/**
+ * Start candidates: low-degree boundary cells first (dead ends must be path
+ * ends anyway), restricted to the majority colour when the parity is uneven
+ */
+function pickStartCells(grid: RegionMask, prng: PRNG, limit: number): number[] {
+  const balance = parityBalance(grid);
+  const candidates: number[] = [];
+  for (let i = 0; i < grid.open.length; i++) {
+    if (!grid.open[i]) continue;
+    if (balance === 0 || cellParity(grid, i) === (balance > 0 ? 0 : 1)) {
+      candidates.push(i);
+    }
+  }
   
-  // Stitch strips together
-  const path: [number, number][] = [];
-  let reverseNext = false;
+  return prng.shuffle(candidates)
+    .sort((a, b) => grid.adjacency[a].length - grid.adjacency[b].length)
+    .slice(0, limit);
+}
+
+function onwardDegree(grid: RegionMask, visited: Uint8Array, cell: number): number {
+  let degree = 0;
+  for (const n of grid.adjacency[cell]) {
+    if (!visited[n]) degree++;
+  }
+  return degree;
+}
+
+/**
+ * Stitches a path from the given start, returning cell indices or null when
+ * the re-stitch budget runs out
+ */
+function stitchFrom(
+  grid: RegionMask,
+  start: number,
+  horizontal: boolean,
+  prng: PRNG
+): number[] | null {
+  const step = horizontal ? 1 : grid.width;
+  const visited = new Uint8Array(grid.open.length);
+  const position = new Int32Array(grid.open.length).fill(-1);
+  const path = [start];
+  visited[start] = 1;
+  position[start] = 0;
   
-  for (let i = 0; i < sortedStrips.length; i++) {
-    const strip = sortedStrips[i];
-    
-    if (reverseNext) {
-      // Add strip in reverse order
-      for (let j = strip.length - 1; j >= 0; j--) {
-        path.push(strip[j]);
-      }
-    } else {
-      // Add strip in normal order
-      for (const cell of strip) {
-        path.push(cell);
-      }
+  const reverse = (from: number, to: number) => {
+    for (let i = from, j = to; i < j; i++, j--) {
+      [path[i], path[j]] = [path[j], path[i]];
+    }
+    for (let i = from; i <= to; i++) {
+      position[path[i]] = i;
     }
+  };
+  
+  let restitches = 0;
+  while (path.length < grid.count) {
+    const end = path[path.length - 1];
+    const junctions = grid.adjacency[end].filter(n => !visited[n]);
     
-    // Check if we can connect to next strip
-    if (i < sortedStrips.length - 1) {
-      const lastCell = path[path.length - 1];
-      const nextStrip = sortedStrips[i + 1];
-      
-      // Find best connection point in next strip
-      let canConnect = false;
-      for (const nextCell of nextStrip) {
-        const key = `${lastCell[0]},${lastCell[1]}`;
-        const neighbors = adjacency.get(key) || [];
-        if (neighbors.some(n => n[0] === nextCell[0] && n[1] === nextCell[1])) {
-          canConnect = true;
-          break;
+    if (junctions.length > 0) {
+      // Enter the tightest neighbouring strip and sweep it in the longer direction
+      const junction = prng.shuffle(junctions)
+        .sort((a, b) => onwardDegree(grid, visited, a) - onwardDegree(grid, visited, b))[0];
+      let sweep = [junction];
+      for (const direction of [step, -step]) {
+        const run = [junction];
+        let cell = junction;
+        while (grid.adjacency[cell].includes(cell + direction) && !visited[cell + direction]) {
+          cell += direction;
+          run.push(cell);
         }
+        if (run.length > sweep.length) sweep = run;
       }
       
-      if (!canConnect) {
-        // Try to find a bridge through intermediate cells
-        // This is simplified - a full implementation would be more sophisticated
-        reverseNext = !reverseNext;
-      } else {
-        reverseNext = !reverseNext;
+      for (const cell of sweep) {
+        visited[cell] = 1;
+        position[cell] = path.length;
+        path.push(cell);
       }
+      continue;
     }
+    
+    if (++restitches > grid.count * RESTITCHES_PER_CELL) return null;
+    restitch(grid, path, position, visited, reverse, prng);
   }
   
-  // Verify path visits all cells exactly once
-  if (path.length !== cells.length) {
-    return { path: [], success: false };
-  }
+  return path;
+}
+
+/**
+ * Backs the path up to an earlier junction: the end (either end, picked at
+ * random) is joined to an adjacent cell further back along the path and the
+ * stretch after that cell is reversed, so the cell that used to follow the
+ * junction becomes the new end. Junctions that free an end next to unvisited
+ * cells are preferred.
+ */
+function restitch(
+  grid: RegionMask,
+  path: number[],
+  position: Int32Array,
+  visited: Uint8Array,
+  reverse: (from: number, to: number) => void,
+  prng: PRNG
+): void {
+  if (prng.random() < 0.5) reverse(0, path.length - 1);
   
-  // Verify path is connected
-  for (let i = 1; i < path.length; i++) {
-    const [x1, y1] = path[i - 1];
-    const [x2, y2] = path[i];
-    const dist = Math.abs(x2 - x1) + Math.abs(y2 - y1);
-    if (dist !== 1) {
-      return { path: [], success: false };
-    }
-  }
+  const end = path[path.length - 1];
+  const pivots = grid.adjacency[end].filter(n => n !== path[path.length - 2]);
+  if (pivots.length === 0) return;
   
-  return { path, success: true };
+  const freeing = pivots.filter(n => onwardDegree(grid, visited, path[position[n] + 1]) > 0);
+  const pivot = prng.choice(freeing.length > 0 ? freeing : pivots);
+  reverse(position[pivot] + 1, path.length - 1);
 }
 
+const MAX_DFS_STARTS = 3;
+const DFS_NODES_PER_CELL = 20;
+
 /**
  * DFS-based Hamiltonian path generation (fallback)
+ *
+ * Degree-heuristic search: the next cell is the unvisited neighbour with the
+ * fewest onward moves (Warnsdorff), and any branch that strands cells is cut
+ * at once (see isStranding). Each start gets a fixed node budget so the
+ * outcome does not depend on machine speed; the deadline only aborts.
  */
-function dfsHamiltonianPath(region: IRRegion, prng: PRNG): HamiltonianPath {
-  const cells = Array.from(region.cells).map(c => {
-    const [x, y] = c.split(',').map(Number);
-    return [x - region.bounds.minX, y - region.bounds.minY] as [number, number];
-  });
+function dfsHamiltonianPath(region: IRRegion, prng: PRNG, deadline: number): HamiltonianPath {
+  const grid = regionToMask(region);
   
-  if (cells.length === 0) {
+  if (grid.count === 0 || !isHamiltonianFeasible(grid)) {
     return { path: [], success: false };
   }
   
-  // Shuffle starting points for randomization
-  const shuffledCells = [...cells];
-  for (let i = shuffledCells.length - 1; i > 0; i--) {
-    const j = Math.floor(prng.random() * (i + 1));
-    [shuffledCells[i], shuffledCells[j]] = [shuffledCells[j], shuffledCells[i]];
-  }
-  
-  // Try DFS from different starting points
-  for (const start of shuffledCells.slice(0, Math.min(5, shuffledCells.length))) {
-    const visited = new Set<string>();
-    const path: [number, number][] = [];
-    
-    if (dfs(start, cells, visited, path, region, prng)) {
-      return { path, success: true };
+  for (const start of pickStartCells(grid, prng, MAX_DFS_STARTS)) {
+    const path = dfs(grid, start, prng, deadline);
+    if (path) {
+      return {
+        path: path.map(i => [i % grid.width, Math.floor(i / grid.width)] as [number, number]),
+        success: true
+      };
     }
   }
   
@@ -172,71 +283,101 @@ function dfsHamiltonianPath(region: IRRegion, prng: PRNG): HamiltonianPath {
 }
 
 function dfs(
-  current: [number, number],
-  cells: [number, number][],
-  visited: Set<string>,
-  path: [number, number][],
-  region: IRRegion,
-  prng: PRNG
-): boolean {
-  const key = `${current[0]},${current[1]}`;
-  visited.add(key);
-  path.push(current);
+  grid: RegionMask,
+  start: number,
+  prng: PRNG,
+  deadline: number
+): number[] | null {
+  const visited = new Uint8Array(grid.open.length);
+  const path = [start];
+  visited[start] = 1;
   
-  // Check if we've visited all cells
-  if (path.length === cells.length) {
-    return true;
-  }
+  const nodeLimit = grid.count * DFS_NODES_PER_CELL;
+  let nodes = 0;
   
-  // Get neighbors and shuffle for randomization
-  const neighbors: [number, number][] = [];
-  for (const [dx, dy] of [[0, 1], [1, 0], [0, -1], [-1, 0]]) {
-    const nx = current[0] + dx;
-    const ny = current[1] + dy;
-    const nKey = `${nx},${ny}`;
+  const extend = (): boolean => {
+    if (path.length === grid.count) return true;
+    if (++nodes > nodeLimit) return false;
+    if (Date.now() > deadline) throw new GenTimeoutError();
     
-    if (region.cells.has(`${nx + region.bounds.minX},${ny + region.bounds.minY}`) && !visited.has(nKey)) {
-      neighbors.push([nx, ny]);
-    }
-  }
-  
-  // Shuffle neighbors
-  for (let i = neighbors.length - 1; i > 0; i--) {
-    const j = Math.floor(prng.random() * (i + 1));
-    [neighbors[i], neighbors[j]] = [neighbors[j], neighbors[i]];
-  }
-  
-  // Try each neighbor
-  for (const neighbor of neighbors) {
-    if (dfs(neighbor, cells, visited, path, region, prng)) {
-      return true;
+    const end = path[path.length - 1];
+    const next = prng.shuffle(grid.adjacency[end].filter(n => !visited[n]))
+      .sort((a, b) => onwardDegree(grid, visited, a) - onwardDegree(grid, visited, b));
+    
+    for (const cell of next) {
+      visited[cell] = 1;
+      path.push(cell);
+      
+      if (!isStranding(grid, visited, cell, grid.count - path.length) && extend()) {
+        return true;
+      }
+      
+      // Backtrack
+      visited[cell] = 0;
+      path.pop();
+      if (nodes > nodeLimit) return false;
     }
-  }
+    
+    return false;
+  };
   
-  // Backtrack
-  visited.delete(key);
-  path.pop();
-  return false;
+  if (isStranding(grid, visited, start, grid.count - 1)) return null;
+  return extend() ? path : null;
 }
 
 /**
- * Converts a Hamiltonian path to a solution sequence
+ * True when the unvisited cells can no longer be covered by a path
+ * continuing from the end cell: wrong colour balance, more than one dead end,
+ * an isolated cell, or a pocket disconnected from the path end
  */
-export function pathToSolution(path: [number, number][]): number[] {
-  if (path.length === 0) return [];
+function isStranding(
+  grid: RegionMask,
+  visited: Uint8Array,
+  end: number,
+  remaining: number
+): boolean {
+  if (remaining === 0) return false;
   
-  const solution: number[] = [];
+  // Colours alternate from the end, so the other colour leads by remaining % 2
+  let balance = 0;
+  let deadEnds = 0;
+  const endParity = cellParity(grid, end);
   
-  for (let i = 1; i < path.length; i++) {
-    const [x1, y1] = path[i - 1];
-    const [x2, y2] = path[i];
+  for (let i = 0; i < grid.open.length; i++) {
+    if (!grid.open[i] || visited[i]) continue;
+    balance += cellParity(grid, i) === endParity ? -1 : 1;
     
-    // Determine direction: 0=up, 1=right, 2=down, 3=left
-    if (x2 > x1) solution.push(1); // right
-    else if (x2 < x1) solution.push(3); // left
-    else if (y2 > y1) solution.push(2); // down
-    else solution.push(0); // up
+    let available = 0;
+    let touchesEnd = false;
+    for (const n of grid.adjacency[i]) {
+      if (n === end) touchesEnd = true;
+      if (!visited[n] || n === end) available++;
+    }
+    
+    if (available === 0) return true;
+    if (available === 1) {
+      // A cell reachable only from the end must be the very last one
+      if (touchesEnd && remaining > 1) return true;
+      if (++deadEnds > 1) return true;
+    }
   }
   
-  return solution;
-}
\ No newline at end of file
+  if (balance !== remaining % 2) return true;
+  
+  // Every unvisited cell must still be reachable from the end
+  const seen = new Uint8Array(grid.open.length);
+  const stack = [end];
+  seen[end] = 1;
+  let reached = 0;
+  while (stack.length > 0) {
+    const cell = stack.pop()!;
+    for (const n of grid.adjacency[cell]) {
+      if (visited[n] || seen[n]) continue;
+      seen[n] = 1;
+      reached++;
+      stack.push(n);
+    }
+  }
+  
+  return reached !== remaining;
+}
@@ -0,0 +1,74 @@
+import { Hint, Level, SolveStatus } from '@/types';
+import { SolveOptions, solveLevel } from './solver';
+
+/**
+ * Suggests the next step from the player's current position
+ *
+ * The hint comes from a solution that keeps everything already drawn, so
+ * it still works after the player has left the stored solution. When no
+ * solution keeps the drawing, the first wrong cell is reported instead:
+ * colors are checked in order, and within a color the longest prefix that
+ * can still be completed is found by binary search (a solvable prefix
+ * stays solvable when shortened).
+ * @param color The color to advance; falls back to the first unfinished one
+ */
+export function findHint(
+  level: Level,
+  playerPaths: Map<number, number[]>,
+  color: number,
+  options: SolveOptions = {}
+): Hint {
+  const result = solveLevel(level, playerPaths, options);
+  if (result.status === 'solved' && result.paths) {
+    return nextStep(result.paths, playerPaths, color);
+  }
+  if (result.status === 'unknown') return { status: 'unknown' };
+
+  const accepted = new Map<number, number[]>();
+  const status = (paths: Map<number, number[]>): SolveStatus => solveLevel(level, paths, options).status;
+  if (status(accepted) !== 'solved') return { status: 'unknown' };
+
+  const colors = [...playerPaths.keys()].sort((a, b) => a - b);
+  for (const c of colors) {
+    const path = playerPaths.get(c) || [];
+
+    // Longest prefix of this color that can still be completed
+    let lo = 0;
+    let hi = path.length;
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      const probe = status(new Map(accepted).set(c, path.slice(0, mid)));
+      if (probe === 'unknown') return { status: 'unknown' };
+      if (probe === 'solved') lo = mid;
+      else hi = mid - 1;
+    }
+
+    if (lo < path.length) return { status: 'wrong', color: c, cell: path[lo] };
+    accepted.set(c, path);
+  }
+
+  // Every color passed on its own, so the full drawing should have too
+  return { status: 'unknown' };
+}
+
+/**
+ * The solver lays each player path down as the prefix of its solution path,
+ * so the next step of a color is the edge right after that prefix
+ */
+function nextStep(paths: number[][], playerPaths: Map<number, number[]>, color: number): Hint {
+  const drawn = (c: number) => playerPaths.get(c)?.length ?? 0;
+  const unfinished = (c: number) => drawn(c) < paths[c].length;
+
+  const target = paths[color] && unfinished(color)
+    ? color
+    : paths.findIndex((_, c) => unfinished(c));
+  if (target === -1) return { status: 'complete' };
+
+  const step = Math.max(drawn(target), 1);
+  return {
+    status: 'step',
+    color: target,
+    from: paths[target][step - 1],
+    to: paths[target][step]
+  };
+}
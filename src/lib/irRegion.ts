@@ -1,142 +1,379 @@
 import { PRNG } from './prng';
 
 export interface IRRegion {
-  cells: Set<string>; // Set of "x,y" strings for cells in region
+  open: Uint8Array; // length width*height, 1=open, 0=blocked (same layout as Level.open)
   width: number;
   height: number;
-  bounds: {
-    minX: number;
-    maxX: number;
-    minY: number;
-    maxY: number;
-  };
+  count: number; // number of open cells
+}
+
+export interface IRRegionOptions {
+  /**
+   * Preference for frontier cells that grow the perimeter. Each candidate is
+   * weighted by exp(perimeterBias * perimeterGain): 0 grows uniformly,
+   * positive values grow tendrils, negative values grow compact blobs.
+   */
+  perimeterBias?: number;
+  /** Weight multiplier for cells that would touch the region only diagonally */
+  pinchPenalty?: number;
+  /** Remove 1x1 dead spurs after growth (and regrow to the target size) */
+  smooth?: boolean;
+  /**
+   * Trade boundary cells until the checkerboard colours differ by at most one,
+   * which every Hamiltonian path needs
+   */
+  balanceParity?: boolean;
 }
 
+const DEFAULT_OPTIONS: Required<IRRegionOptions> = {
+  perimeterBias: -0.15,
+  pinchPenalty: 0.05,
+  smooth: true,
+  balanceParity: true
+};
+
+const MAX_SMOOTHING_PASSES = 4;
+const MAX_PARITY_SWAPS = 40;
+
 /**
- * Generates an irregular connected region within the given bounds
- * @param width Target width
- * @param height Target height
+ * Generates an irregular connected region within the given bounds (Algorithm IR)
+ * 1. Seeded random start cell
+ * 2. Randomized frontier growth biased by perimeter gain, avoiding diagonal pinches
+ * 3. Connectivity sweep, bridging stray components with shortest 4-neighbour paths
+ * 4. Smoothing: 1x1 dead spurs are removed and the region is regrown to size
+ * 5. Parity balancing: boundary cells are traded between checkerboard colours
+ * @param width Board width
+ * @param height Board height
  * @param prng Random number generator
  * @param fillRatio Target fill ratio (0.5-0.9 recommended)
+ * @param options Bias knobs, see IRRegionOptions
  * @returns IRRegion with connected cells
  */
 export function generateIRRegion(
   width: number,
   height: number,
   prng: PRNG,
-  fillRatio: number = 0.7
+  fillRatio: number = 0.7,
+  options: IRRegionOptions = {}
 ): IRRegion {
-  const targetCells = Math.floor(width * height * fillRatio);
-  const cells = new Set<string>();
-  
-  // Start from center
-  const startX = Math.floor(width / 2);
-  const startY = Math.floor(height / 2);
-  cells.add(`${startX},${startY}`);
-  
-  // Frontier-based growth
-  const frontier = new Set<string>();
-  addNeighborsToFrontier(startX, startY, width, height, cells, frontier);
-  
-  // Grow region until target size reached
-  while (cells.size < targetCells && frontier.size > 0) {
-    // Convert frontier to array for random selection
-    const frontierArray = Array.from(frontier);
-    const idx = Math.floor(prng.random() * frontierArray.length);
-    const cell = frontierArray[idx];
-    
-    frontier.delete(cell);
-    cells.add(cell);
-    
-    const [x, y] = cell.split(',').map(Number);
-    addNeighborsToFrontier(x, y, width, height, cells, frontier);
-  }
-  
-  // Calculate actual bounds
-  let minX = width, maxX = 0, minY = height, maxY = 0;
-  for (const cell of cells) {
-    const [x, y] = cell.split(',').map(Number);
-    minX = Math.min(minX, x);
-    maxX = Math.max(maxX, x);
-    minY = Math.min(minY, y);
-    maxY = Math.max(maxY, y);
-  }
-  
-  return {
-    cells,
-    width: maxX - minX + 1,
-    height: maxY - minY + 1,
-    bounds: { minX, maxX, minY, maxY }
+  const knobs = { ...DEFAULT_OPTIONS, ...options };
+  const targetCells = Math.max(1, Math.min(width * height, Math.round(width * height * fillRatio)));
+  const region: IRRegion = {
+    open: new Uint8Array(width * height),
+    width,
+    height,
+    count: 0
   };
+
+  growRegion(region, targetCells, prng, knobs);
+  ensureConnected(region);
+
+  if (knobs.smooth) {
+    for (let pass = 0; pass < MAX_SMOOTHING_PASSES; pass++) {
+      if (removeSpurs(region) === 0) break;
+      growRegion(region, targetCells, prng, knobs);
+    }
+  }
+
+  if (knobs.balanceParity) {
+    balanceParity(region, prng);
+  }
+
+  return region;
 }
 
-function addNeighborsToFrontier(
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  cells: Set<string>,
-  frontier: Set<string>
+/**
+ * Grows the region from its current cells (or a random start cell when
+ * empty) until it holds targetCells cells or runs out of frontier. When
+ * regrowing an existing region, cells that would become spurs are skipped.
+ */
+function growRegion(
+  region: IRRegion,
+  targetCells: number,
+  prng: PRNG,
+  knobs: Required<IRRegionOptions>
 ): void {
-  const neighbors = [
-    [x - 1, y],
-    [x + 1, y],
-    [x, y - 1],
-    [x, y + 1]
-  ];
-  
-  for (const [nx, ny] of neighbors) {
-    if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-      const key = `${nx},${ny}`;
-      if (!cells.has(key) && !frontier.has(key)) {
-        frontier.add(key);
+  const { open } = region;
+  const regrowing = region.count > 0;
+
+  if (!regrowing) {
+    const start = prng.randInt(0, open.length - 1);
+    open[start] = 1;
+    region.count = 1;
+  }
+
+  // Frontier as a dense list plus an index lookup, so removal is O(1)
+  const frontier: number[] = [];
+  const frontierIndex = new Int32Array(open.length).fill(-1);
+  const addToFrontier = (cell: number) => {
+    if (open[cell] || frontierIndex[cell] !== -1) return;
+    frontierIndex[cell] = frontier.length;
+    frontier.push(cell);
+  };
+  const removeFromFrontier = (cell: number) => {
+    const index = frontierIndex[cell];
+    const last = frontier.pop()!;
+    if (last !== cell) {
+      frontier[index] = last;
+      frontierIndex[last] = index;
+    }
+    frontierIndex[cell] = -1;
+  };
+
+  for (let i = 0; i < open.length; i++) {
+    if (!open[i]) continue;
+    for (const n of neighbors(region, i)) addToFrontier(n);
+  }
+
+  while (region.count < targetCells && frontier.length > 0) {
+    const weights = frontier.map(cell => {
+      const openNeighbors = countOpenNeighbors(region, cell);
+      // A cell touching a single open cell would be a spur right away
+      if (regrowing && openNeighbors < 2) return 0;
+      const perimeterGain = 4 - 2 * openNeighbors;
+      const pinch = createsPinch(region, cell) ? knobs.pinchPenalty : 1;
+      return Math.exp(knobs.perimeterBias * perimeterGain) * pinch;
+    });
+    if (!weights.some(weight => weight > 0)) break;
+
+    const cell = prng.choiceWeighted(frontier, weights);
+    removeFromFrontier(cell);
+    open[cell] = 1;
+    region.count++;
+    for (const n of neighbors(region, cell)) addToFrontier(n);
+  }
+}
+
+/**
+ * True when opening the cell would touch an open cell only diagonally
+ * (both shared orthogonal neighbours blocked), which forms a pinch point
+ */
+function createsPinch(region: IRRegion, cell: number): boolean {
+  const { open, width, height } = region;
+  const x = cell % width;
+  const y = Math.floor(cell / width);
+
+  for (const [dx, dy] of [[1, 1], [1, -1], [-1, 1], [-1, -1]]) {
+    const nx = x + dx;
+    const ny = y + dy;
+    if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+    if (open[ny * width + nx] && !open[y * width + nx] && !open[ny * width + x]) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Connectivity sweep: keeps the largest component and joins every other
+ * component to it along a shortest 4-neighbour bridge of blocked cells
+ */
+function ensureConnected(region: IRRegion): void {
+  const { open } = region;
+  const component = new Int32Array(open.length).fill(-1);
+  const sizes: number[] = [];
+
+  for (let i = 0; i < open.length; i++) {
+    if (!open[i] || component[i] !== -1) continue;
+    const id = sizes.length;
+    let size = 0;
+    const stack = [i];
+    component[i] = id;
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      size++;
+      for (const n of neighbors(region, cell)) {
+        if (open[n] && component[n] === -1) {
+          component[n] = id;
+          stack.push(n);
+        }
       }
     }
+    sizes.push(size);
+  }
+
+  if (sizes.length <= 1) return;
+
+  const main = sizes.indexOf(Math.max(...sizes));
+  for (let id = 0; id < sizes.length; id++) {
+    if (id === main) continue;
+    bridgeComponent(region, component, id, main);
   }
 }
 
 /**
- * Normalizes an IR region to start at (0,0)
+ * Opens the blocked cells on a shortest path from one component to another,
+ * then relabels the source component (and the bridge) as the target
  */
-export function normalizeRegion(region: IRRegion): IRRegion {
-  const normalized = new Set<string>();
-  const { minX, minY } = region.bounds;
-  
-  for (const cell of region.cells) {
-    const [x, y] = cell.split(',').map(Number);
-    normalized.add(`${x - minX},${y - minY}`);
-  }
-  
-  return {
-    cells: normalized,
-    width: region.width,
-    height: region.height,
-    bounds: {
-      minX: 0,
-      maxX: region.width - 1,
-      minY: 0,
-      maxY: region.height - 1
+function bridgeComponent(
+  region: IRRegion,
+  component: Int32Array,
+  from: number,
+  to: number
+): void {
+  const { open } = region;
+  const parent = new Int32Array(open.length).fill(-1);
+  const queue: number[] = [];
+
+  for (let i = 0; i < open.length; i++) {
+    if (component[i] === from) {
+      parent[i] = i;
+      queue.push(i);
     }
-  };
+  }
+
+  for (let head = 0; head < queue.length; head++) {
+    const cell = queue[head];
+    for (const n of neighbors(region, cell)) {
+      if (parent[n] !== -1) continue;
+      parent[n] = cell;
+
+      if (component[n] === to) {
+        // Walk back, opening the blocked cells on the bridge
+        for (let c = cell; component[c] !== from; c = parent[c]) {
+          open[c] = 1;
+          component[c] = to;
+          region.count++;
+        }
+        for (let i = 0; i < open.length; i++) {
+          if (component[i] === from) component[i] = to;
+        }
+        return;
+      }
+
+      queue.push(n);
+    }
+  }
+}
+
+/**
+ * Removes 1x1 dead spurs (open cells with a single open neighbour).
+ * Removing a spur never disconnects the region.
+ * @returns Number of cells removed
+ */
+function removeSpurs(region: IRRegion): number {
+  if (region.count <= 2) return 0;
+
+  const spurs: number[] = [];
+  for (let i = 0; i < region.open.length; i++) {
+    if (region.open[i] && countOpenNeighbors(region, i) === 1) spurs.push(i);
+  }
+
+  for (const cell of spurs) {
+    region.open[cell] = 0;
+    region.count--;
+  }
+
+  return spurs.length;
+}
+
+/**
+ * Swaps a majority-colour boundary cell for a minority-colour frontier cell
+ * until the colour counts differ by at most one. Swaps never disconnect the
+ * region or leave a cell with fewer than two open neighbours.
+ */
+function balanceParity(region: IRRegion, prng: PRNG): void {
+  const { open, width } = region;
+  const parity = (cell: number) => (cell % width + Math.floor(cell / width)) % 2;
+
+  for (let swap = 0; swap < MAX_PARITY_SWAPS; swap++) {
+    let balance = 0;
+    for (let i = 0; i < open.length; i++) {
+      if (open[i]) balance += parity(i) === 0 ? 1 : -1;
+    }
+    if (Math.abs(balance) <= 1) return;
+
+    const majority = balance > 0 ? 0 : 1;
+    const additions: number[] = [];
+    const removals: number[] = [];
+    for (let i = 0; i < open.length; i++) {
+      if (parity(i) !== majority && !open[i] && countOpenNeighbors(region, i) >= 2) {
+        additions.push(i);
+      } else if (parity(i) === majority && open[i] && countOpenNeighbors(region, i) < 4) {
+        removals.push(i);
+      }
+    }
+    if (additions.length === 0) return;
+
+    const added = prng.choice(additions);
+    open[added] = 1;
+    region.count++;
+
+    const removed = prng.shuffle(removals).find(cell => isRemovable(region, cell));
+    if (removed === undefined) {
+      open[added] = 0;
+      region.count--;
+      return;
+    }
+    open[removed] = 0;
+    region.count--;
+  }
+}
+
+/**
+ * True when closing the cell keeps the region connected and leaves each of
+ * its open neighbours with at least two open neighbours
+ */
+function isRemovable(region: IRRegion, cell: number): boolean {
+  const { open } = region;
+  const adjacent = neighbors(region, cell).filter(n => open[n]);
+  if (adjacent.some(n => countOpenNeighbors(region, n) <= 2)) return false;
+
+  open[cell] = 0;
+  const seen = new Uint8Array(open.length);
+  const stack = [adjacent[0]];
+  seen[adjacent[0]] = 1;
+  let reached = 1;
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    for (const n of neighbors(region, current)) {
+      if (open[n] && !seen[n]) {
+        seen[n] = 1;
+        reached++;
+        stack.push(n);
+      }
+    }
+  }
+  open[cell] = 1;
+
+  return reached === region.count - 1;
+}
+
+function neighbors(region: IRRegion, cell: number): number[] {
+  const { width, height } = region;
+  const x = cell % width;
+  const y = Math.floor(cell / width);
+  const result: number[] = [];
+
+  if (x > 0) result.push(cell - 1);
+  if (x < width - 1) result.push(cell + 1);
+  if (y > 0) result.push(cell - width);
+  if (y < height - 1) result.push(cell + width);
+
+  return result;
+}
+
+function countOpenNeighbors(region: IRRegion, cell: number): number {
+  let count = 0;
+  for (const n of neighbors(region, cell)) {
+    if (region.open[n]) count++;
+  }
+  return count;
 }
 
 /**
  * Converts IR region to 2D boolean grid
  */
 export function regionToGrid(region: IRRegion): boolean[][] {
-  const grid: boolean[][] = Array(region.height)
-    .fill(null)
-    .map(() => Array(region.width).fill(false));
-  
-  for (const cell of region.cells) {
-    const [x, y] = cell.split(',').map(Number);
-    const nx = x - region.bounds.minX;
-    const ny = y - region.bounds.minY;
-    if (ny >= 0 && ny < region.height && nx >= 0 && nx < region.width) {
-      grid[ny][nx] = true;
+  const grid: boolean[][] = [];
+  for (let y = 0; y < region.height; y++) {
+    const row: boolean[] = [];
+    for (let x = 0; x < region.width; x++) {
+      row.push(region.open[y * region.width + x] === 1);
     }
+    grid.push(row);
   }
-  
   return grid;
 }
 
@@ -145,9 +382,8 @@ export function regionToGrid(region: IRRegion): boolean[][] {
  */
 export function getCellList(region: IRRegion): [number, number][] {
   const cells: [number, number][] = [];
-  for (const cell of region.cells) {
-    const [x, y] = cell.split(',').map(Number);
-    cells.push([x - region.bounds.minX, y - region.bounds.minY]);
+  for (let i = 0; i < region.open.length; i++) {
+    if (region.open[i]) cells.push([i % region.width, Math.floor(i / region.width)]);
   }
   return cells;
-}
\ No newline at end of file
+}
@@ -0,0 +1,235 @@
+import { GameParams, Level, LevelFile, Mode } from '@/types';
+import { LEVEL_FILE_FORMAT, LEVEL_FILE_VERSION, MAX_LEVEL_SIZE, fromLevelFile, sameBoard } from './levelFile';
+import { generateLevel } from './generator';
+import { parseShareCode, serializeShareCode } from './seed';
+
+/**
+ * Self-contained level codes: the whole level bit-packed into a URL-safe
+ * string, so levels that did not come from the generator can be linked
+ * (`/play#lc=<code>`). Layout, most significant bit first:
+ * - version (8 bits), mode (2), w - 1 (6), h - 1 (6), colors - 1 (8),
+ *   has-solution flag (1)
+ * - the open mask, one bit per cell in row-major order
+ * - each color's start (Modes 1/2) or both pair ends (Mode 3), as cell
+ *   indices of just enough bits for w * h cells
+ * - if flagged, each color's path length - 1 (cell bits) followed by one
+ *   2-bit direction per step from its start
+ * - zero padding to a whole byte, then a 32-bit FNV-1a checksum of
+ *   everything before it
+ * The bytes are base64url-encoded without padding.
+ */
+export const LEVEL_CODE_VERSION = 1;
+const CHECKSUM_BYTES = 4;
+const MAX_COLORS = 256;
+const MODE_BITS = 2;
+const SIZE_BITS = 6;
+const COLOR_BITS = 8;
+// Step directions, indexed by their 2-bit code: right, down, left, up
+const DIRECTIONS: [number, number][] = [[1, 0], [0, 1], [-1, 0], [0, -1]];
+
+/**
+ * Thrown when a level code is malformed, truncated or fails its checksum
+ */
+export class LevelCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LevelCodeError';
+  }
+}
+
+/**
+ * Encodes a level as a level code; its solution is included when known
+ */
+export function encodeLevelCode(level: Level): string {
+  const { w, h, mode } = level;
+  const cellBits = bitsFor(w * h - 1);
+  const colors = mode === 3 ? level.pairs?.length ?? 0 : level.starts.length;
+  if (w > MAX_LEVEL_SIZE || h > MAX_LEVEL_SIZE) throw new LevelCodeError(`Levels above ${MAX_LEVEL_SIZE}x${MAX_LEVEL_SIZE} have no level code`);
+  if (colors < 1 || colors > MAX_COLORS) throw new LevelCodeError(`Levels need 1 to ${MAX_COLORS} colors for a level code`);
+
+  const writer = new BitWriter();
+  writer.write(LEVEL_CODE_VERSION, 8);
+  writer.write(mode, MODE_BITS);
+  writer.write(w - 1, SIZE_BITS);
+  writer.write(h - 1, SIZE_BITS);
+  writer.write(colors - 1, COLOR_BITS);
+  writer.write(level.solutionPaths ? 1 : 0, 1);
+  for (let i = 0; i < w * h; i++) writer.write(level.open[i] === 1 ? 1 : 0, 1);
+
+  if (mode === 3) {
+    for (const pair of level.pairs || []) {
+      writer.write(pair.a, cellBits);
+      writer.write(pair.b, cellBits);
+    }
+  } else {
+    for (const start of level.starts.slice().sort((a, b) => a.color - b.color)) writer.write(start.i, cellBits);
+  }
+
+  for (const path of level.solutionPaths || []) {
+    writer.write(path.length - 1, cellBits);
+    for (let i = 1; i < path.length; i++) {
+      const dx = path[i] % w - path[i - 1] % w;
+      const dy = Math.floor(path[i] / w) - Math.floor(path[i - 1] / w);
+      const direction = DIRECTIONS.findIndex(([x, y]) => x === dx && y === dy);
+      if (direction < 0) throw new LevelCodeError('The solution steps between cells that are not adjacent');
+      writer.write(direction, 2);
+    }
+  }
+
+  const payload = writer.bytes();
+  const bytes = new Uint8Array(payload.length + CHECKSUM_BYTES);
+  bytes.set(payload);
+  const checksum = fnv1a(payload);
+  for (let i = 0; i < CHECKSUM_BYTES; i++) bytes[payload.length + i] = (checksum >>> (8 * (CHECKSUM_BYTES - 1 - i))) & 0xFF;
+  return toBase64Url(bytes);
+}
+
+/**
+ * The share-code params that reproduce a level: its generator params when
+ * regenerating from them gives the same board, otherwise its level code.
+ * Regenerating runs on the calling thread, within the usual budget.
+ */
+export function levelShareParams(level: Level): GameParams {
+  if (Object.keys(level.params).length > 0) {
+    // Round-tripping through the share code drops keys the generator ignores
+    const params = parseShareCode(serializeShareCode({ ...level.params, m: level.mode, seed: level.seed } as GameParams));
+    try {
+      if (sameBoard(generateLevel(params), level)) return params;
+    } catch {
+      // A level the generator cannot reproduce in time is linked by its code
+    }
+  }
+  return { lc: encodeLevelCode(level) };
+}
+
+/**
+ * Decodes a level code into a level, validated like an imported level file
+ * @throws LevelCodeError when the code is malformed, truncated or fails its checksum
+ * @throws LevelFormatError when the decoded level itself is invalid
+ */
+export function decodeLevelCode(code: string): Level {
+  const bytes = fromBase64Url(code);
+  if (bytes.length <= CHECKSUM_BYTES) throw new LevelCodeError('Level code is truncated');
+
+  const payload = bytes.subarray(0, bytes.length - CHECKSUM_BYTES);
+  let stored = 0;
+  for (let i = 0; i < CHECKSUM_BYTES; i++) stored = (stored * 256) + bytes[payload.length + i];
+  if (stored !== fnv1a(payload)) {
+    throw new LevelCodeError('Level code checksum does not match; the link may be truncated or mistyped');
+  }
+
+  const reader = new BitReader(payload);
+  const version = reader.read(8);
+  if (version !== LEVEL_CODE_VERSION) throw new LevelCodeError(`Unsupported level code version: ${version}`);
+  const mode = reader.read(MODE_BITS);
+  if (mode !== 1 && mode !== 2 && mode !== 3) throw new LevelCodeError(`Unknown mode: ${mode}`);
+  const w = reader.read(SIZE_BITS) + 1;
+  const h = reader.read(SIZE_BITS) + 1;
+  const colors = reader.read(COLOR_BITS) + 1;
+  const hasSolution = reader.read(1) === 1;
+  const cellBits = bitsFor(w * h - 1);
+
+  const open: string[] = [];
+  for (let y = 0; y < h; y++) {
+    let row = '';
+    for (let x = 0; x < w; x++) row += reader.read(1) === 1 ? '.' : '#';
+    open.push(row);
+  }
+
+  const file: LevelFile = { format: LEVEL_FILE_FORMAT, version: LEVEL_FILE_VERSION, mode: mode as Mode, w, h, open };
+  let heads: number[];
+  if (mode === 3) {
+    file.pairs = [];
+    for (let color = 0; color < colors; color++) file.pairs.push([reader.read(cellBits), reader.read(cellBits)]);
+    heads = file.pairs.map(pair => pair[0]);
+  } else {
+    file.starts = [];
+    for (let color = 0; color < colors; color++) file.starts.push(reader.read(cellBits));
+    heads = file.starts;
+  }
+
+  if (hasSolution) {
+    file.solution = heads.map(head => {
+      const steps = reader.read(cellBits);
+      const path = [head];
+      for (let i = 0; i < steps; i++) {
+        const [dx, dy] = DIRECTIONS[reader.read(2)];
+        const last = path[path.length - 1];
+        const x = last % w + dx;
+        const y = Math.floor(last / w) + dy;
+        if (x < 0 || x >= w || y < 0 || y >= h) throw new LevelCodeError('Level code solution leaves the board');
+        path.push(y * w + x);
+      }
+      return path;
+    });
+  }
+
+  return fromLevelFile(file);
+}
+
+// Bits needed to write any value from 0 to max
+function bitsFor(max: number): number {
+  return Math.max(1, Math.ceil(Math.log2(max + 1)));
+}
+
+function fnv1a(bytes: Uint8Array): number {
+  let hash = 0x811C9DC5;
+  for (const byte of bytes) hash = Math.imul(hash ^ byte, 0x01000193);
+  return hash >>> 0;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(code: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(code)) throw new LevelCodeError('Level code contains characters outside base64url');
+  // A base64 string never leaves a single character in its last group
+  if (code.length % 4 === 1) throw new LevelCodeError('Level code is truncated');
+  const binary = atob(code.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+class BitWriter {
+  private values: number[] = [];
+  private current = 0;
+  private used = 0;
+
+  write(value: number, bits: number): void {
+    for (let bit = bits - 1; bit >= 0; bit--) {
+      this.current = (this.current << 1) | ((value >>> bit) & 1);
+      if (++this.used === 8) {
+        this.values.push(this.current);
+        this.current = 0;
+        this.used = 0;
+      }
+    }
+  }
+
+  bytes(): Uint8Array {
+    const values = this.used > 0 ? [...this.values, this.current << (8 - this.used)] : this.values;
+    return Uint8Array.from(values);
+  }
+}
+
+class BitReader {
+  private data: Uint8Array;
+  private position = 0;
+
+  constructor(data: Uint8Array) {
+    this.data = data;
+  }
+
+  read(bits: number): number {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      const byte = this.position >>> 3;
+      if (byte >= this.data.length) throw new LevelCodeError('Level code is truncated');
+      value = (value * 2) + ((this.data[byte] >>> (7 - (this.position & 7))) & 1);
+      this.position++;
+    }
+    return value;
+  }
+}
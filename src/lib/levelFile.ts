@@ -0,0 +1,249 @@
+import { DifficultyMetrics, Level, LevelFile, Mode } from '@/types';
+import { calculateMetrics } from './metrics';
+import { verifyLevel } from './generator';
+
+export const LEVEL_FILE_FORMAT = 'block-fill-level';
+export const LEVEL_FILE_VERSION = 1;
+// Guards imports against absurd allocations; generated boards are far smaller
+export const MAX_LEVEL_SIZE = 64;
+// Seed shown for levels that did not come from the generator
+const CUSTOM_SEED = 'custom';
+
+const METRIC_KEYS = [
+  'size',
+  'holeDensity',
+  'branchingFactor',
+  'forcedMoveRatio',
+  'corridorsPercent',
+  'turnRate'
+] as const;
+
+/**
+ * Thrown when a level file does not match the format; the message names
+ * the offending field
+ */
+export class LevelFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LevelFormatError';
+  }
+}
+
+/**
+ * Converts a level to the portable file format
+ */
+export function toLevelFile(level: Level): LevelFile {
+  const open: string[] = [];
+  for (let y = 0; y < level.h; y++) {
+    let row = '';
+    for (let x = 0; x < level.w; x++) row += level.open[y * level.w + x] === 1 ? '.' : '#';
+    open.push(row);
+  }
+
+  const file: LevelFile = {
+    format: LEVEL_FILE_FORMAT,
+    version: LEVEL_FILE_VERSION,
+    mode: level.mode,
+    w: level.w,
+    h: level.h,
+    open
+  };
+  if (level.mode === 3) {
+    file.pairs = (level.pairs || []).map(pair => [pair.a, pair.b]);
+  } else {
+    file.starts = level.starts.slice().sort((a, b) => a.color - b.color).map(start => start.i);
+  }
+  if (level.solutionPaths) file.solution = level.solutionPaths;
+  file.metrics = level.metrics;
+  file.seed = level.seed;
+  file.params = level.params;
+  return file;
+}
+
+/**
+ * Builds a level from a file, validating every field. Levels without a
+ * solution (hand-made ones) are accepted; a given solution must cover the
+ * board from the starts. Missing metrics are computed.
+ * @throws LevelFormatError naming the first field that does not validate
+ */
+export function fromLevelFile(data: unknown): Level {
+  if (!isObject(data)) throw new LevelFormatError('Level file must be a JSON object');
+  if (data.format !== LEVEL_FILE_FORMAT) {
+    throw new LevelFormatError(`format: expected "${LEVEL_FILE_FORMAT}"`);
+  }
+  if (data.version !== LEVEL_FILE_VERSION) {
+    throw new LevelFormatError(`version: unsupported version ${JSON.stringify(data.version)}`);
+  }
+
+  const mode = data.mode;
+  if (mode !== 1 && mode !== 2 && mode !== 3) throw new LevelFormatError('mode: expected 1, 2 or 3');
+  const w = readInteger(data.w, 'w', 1, MAX_LEVEL_SIZE);
+  const h = readInteger(data.h, 'h', 1, MAX_LEVEL_SIZE);
+  const open = readOpen(data.open, w, h);
+  const isOpenCell = (value: unknown, field: string) => {
+    const cell = readInteger(value, field, 0, w * h - 1);
+    if (open[cell] !== 1) throw new LevelFormatError(`${field}: cell ${cell} is a hole`);
+    return cell;
+  };
+
+  const level: Level = {
+    v: 1,
+    mode: mode as Mode,
+    w,
+    h,
+    open,
+    starts: [],
+    solution: [],
+    metrics: { size: 0, holeDensity: 0, branchingFactor: 0, forcedMoveRatio: 0, corridorsPercent: 0, turnRate: 0 },
+    seed: data.seed === undefined ? CUSTOM_SEED : readString(data.seed, 'seed'),
+    params: data.params === undefined ? {} : readParams(data.params)
+  };
+
+  if (mode === 3) {
+    const pairs = readArray(data.pairs, 'pairs');
+    if (pairs.length === 0) throw new LevelFormatError('pairs: expected at least one pair');
+    level.pairs = pairs.map((pair, color) => {
+      const ends = readArray(pair, `pairs[${color}]`);
+      if (ends.length !== 2) throw new LevelFormatError(`pairs[${color}]: expected [a, b]`);
+      return {
+        color,
+        a: isOpenCell(ends[0], `pairs[${color}][0]`),
+        b: isOpenCell(ends[1], `pairs[${color}][1]`)
+      };
+    });
+    level.starts = level.pairs.flatMap(pair => [
+      { color: pair.color, i: pair.a },
+      { color: pair.color, i: pair.b }
+    ]);
+  } else {
+    const starts = readArray(data.starts, 'starts');
+    if (starts.length === 0) throw new LevelFormatError('starts: expected at least one start');
+    if (mode === 1 && starts.length !== 1) throw new LevelFormatError('starts: Mode 1 has exactly one start');
+    level.starts = starts.map((start, color) => ({ color, i: isOpenCell(start, `starts[${color}]`) }));
+  }
+
+  const seen = new Set<number>();
+  for (const start of level.starts) {
+    if (seen.has(start.i)) throw new LevelFormatError(`cell ${start.i} is used by more than one start`);
+    seen.add(start.i);
+  }
+
+  const colors = mode === 3 ? level.pairs!.length : level.starts.length;
+  if (data.solution !== undefined) {
+    const solution = readArray(data.solution, 'solution');
+    if (solution.length !== colors) {
+      throw new LevelFormatError(`solution: expected ${colors} paths, one per color`);
+    }
+    level.solutionPaths = solution.map((path, color) =>
+      readArray(path, `solution[${color}]`).map((cell, i) => readInteger(cell, `solution[${color}][${i}]`, 0, w * h - 1))
+    );
+    level.solution = level.solutionPaths.flat();
+    if (!verifyLevel(level)) {
+      throw new LevelFormatError('solution: paths must cover every open cell once, in adjacent steps from each start');
+    }
+  }
+
+  level.metrics = data.metrics === undefined
+    ? calculateMetrics(open, w, h, level.solutionPaths || [], (level.pairs || []).map(pair => pair.b))
+    : readMetrics(data.metrics);
+  return level;
+}
+
+/**
+ * Whether two levels are the same puzzle: the same board, starts and pairs
+ */
+export function sameBoard(a: Level, b: Level): boolean {
+  const board = (level: Level) => {
+    const { mode, w, h, open, starts, pairs } = toLevelFile(level);
+    return JSON.stringify({ mode, w, h, open, starts, pairs });
+  };
+  return board(a) === board(b);
+}
+
+/**
+ * Serializes a level as a level file: valid JSON with one field per line,
+ * so files stay readable and diff well
+ */
+export function exportLevel(level: Level): string {
+  const entries = Object.entries(toLevelFile(level));
+  return `{\n${entries.map(([key, value]) => `  ${JSON.stringify(key)}: ${JSON.stringify(value)}`).join(',\n')}\n}\n`;
+}
+
+/**
+ * Parses and validates the text of a level file
+ * @throws LevelFormatError when the text is not JSON or not a valid level
+ */
+export function importLevel(text: string): Level {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new LevelFormatError('Level file is not valid JSON');
+  }
+  return fromLevelFile(data);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readInteger(value: unknown, field: string, min: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new LevelFormatError(`${field}: expected an integer from ${min} to ${max}`);
+  }
+  return value;
+}
+
+function readString(value: unknown, field: string): string {
+  if (typeof value !== 'string') throw new LevelFormatError(`${field}: expected a string`);
+  return value;
+}
+
+function readArray(value: unknown, field: string): unknown[] {
+  if (!Array.isArray(value)) throw new LevelFormatError(`${field}: expected an array`);
+  return value;
+}
+
+function readOpen(value: unknown, w: number, h: number): Uint8Array {
+  const rows = readArray(value, 'open');
+  if (rows.length !== h) throw new LevelFormatError(`open: expected ${h} rows, got ${rows.length}`);
+
+  const open = new Uint8Array(w * h);
+  rows.forEach((row, y) => {
+    const text = readString(row, `open[${y}]`);
+    if (text.length !== w) throw new LevelFormatError(`open[${y}]: expected ${w} cells, got ${text.length}`);
+    for (let x = 0; x < w; x++) {
+      if (text[x] === '.') open[y * w + x] = 1;
+      else if (text[x] !== '#') throw new LevelFormatError(`open[${y}]: unexpected "${text[x]}", use "." or "#"`);
+    }
+  });
+  if (!open.includes(1)) throw new LevelFormatError('open: the board has no open cells');
+  return open;
+}
+
+function readParams(value: unknown): Record<string, number | string> {
+  if (!isObject(value)) throw new LevelFormatError('params: expected an object');
+  for (const [key, param] of Object.entries(value)) {
+    if (typeof param !== 'number' && typeof param !== 'string') {
+      throw new LevelFormatError(`params.${key}: expected a number or string`);
+    }
+  }
+  return value as Record<string, number | string>;
+}
+
+function readMetrics(value: unknown): DifficultyMetrics {
+  if (!isObject(value)) throw new LevelFormatError('metrics: expected an object');
+  for (const key of METRIC_KEYS) {
+    if (typeof value[key] !== 'number') throw new LevelFormatError(`metrics.${key}: expected a number`);
+  }
+  if (value.intertwineIndex !== undefined && typeof value.intertwineIndex !== 'number') {
+    throw new LevelFormatError('metrics.intertwineIndex: expected a number');
+  }
+  if (value.rating !== undefined) {
+    const rating = value.rating;
+    if (!isObject(rating) || typeof rating.score !== 'number' || typeof rating.guesses !== 'number' || !isObject(rating.rules)) {
+      throw new LevelFormatError('metrics.rating: expected { rules, guesses, score }');
+    }
+  }
+  return value as unknown as DifficultyMetrics;
+}
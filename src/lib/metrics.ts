@@ -0,0 +1,169 @@
+import { DifficultyMetrics } from '@/types';
+
+/**
+ * Computes difficulty metrics by walking the hidden solution
+ *
+ * The color paths are drawn in order, as a player would: at every step the
+ * legal next cells are the open, still unvisited neighbours of the head
+ * (plus, in Mode 3, the color's own far end). Revealed starts and pair ends
+ * of other colors count as visited from the outset.
+ * @param solutionPaths Per-color cell indices, each running from its start
+ * @param targets Mode 3 only: the far pair end of each color
+ */
+export function calculateMetrics(
+  open: Uint8Array,
+  w: number,
+  h: number,
+  solutionPaths: number[][],
+  targets: number[] = []
+): DifficultyMetrics {
+  let size = 0;
+  for (let i = 0; i < open.length; i++) {
+    if (open[i] === 1) size++;
+  }
+  const holeDensity = 1 - (size / (w * h));
+
+  const visited = new Uint8Array(open.length);
+  for (const path of solutionPaths) visited[path[0]] = 1;
+  for (const target of targets) visited[target] = 1;
+
+  let steps = 0;
+  let totalBranches = 0;
+  let forcedMoves = 0;
+  let turns = 0;
+
+  solutionPaths.forEach((path, color) => {
+    for (let i = 1; i < path.length; i++) {
+      const head = path[i - 1];
+      let branches = 0;
+      for (const n of neighbors(head, w, h)) {
+        if (open[n] !== 1) continue;
+        if (!visited[n] || n === targets[color]) branches++;
+      }
+
+      steps++;
+      totalBranches += branches;
+      if (branches === 1) forcedMoves++;
+      if (i >= 2 && path[i] - head !== head - path[i - 2]) turns++;
+
+      visited[path[i]] = 1;
+    }
+  });
+
+  const metrics: DifficultyMetrics = {
+    size,
+    holeDensity,
+    branchingFactor: steps > 0 ? totalBranches / steps : 0,
+    forcedMoveRatio: steps > 0 ? forcedMoves / steps : 0,
+    corridorsPercent: size > 0 ? countCorridorCells(open, w, h) / size : 0,
+    turnRate: steps > 0 ? (turns / steps) * 10 : 0
+  };
+
+  // Intertwine only means something once there are several colors (Modes 2/3)
+  if (solutionPaths.length > 1) {
+    metrics.intertwineIndex = calculateIntertwineIndex(open, w, h, solutionPaths);
+  }
+  return metrics;
+}
+
+/**
+ * How tightly the colored segments wrap around each other, in [0, 1]: the
+ * mean of three ratios, each independent of the board size
+ * - border: share of the non-path adjacencies that separate two colors
+ * - proximity: share of color pairs that touch at all
+ * - nesting: mean overlap of the colors' bounding boxes, relative to the
+ *   smaller box (1 when one segment lies within the other's extent)
+ */
+function calculateIntertwineIndex(
+  open: Uint8Array,
+  w: number,
+  h: number,
+  solutionPaths: number[][]
+): number {
+  const colors = solutionPaths.length;
+  const owner = new Int16Array(open.length).fill(-1);
+  solutionPaths.forEach((path, color) => {
+    for (const cell of path) owner[cell] = color;
+  });
+
+  // Each open adjacency is seen once, from its left or upper cell
+  let adjacencies = 0;
+  let borders = 0;
+  const touching = new Set<number>();
+  for (let i = 0; i < open.length; i++) {
+    if (open[i] !== 1) continue;
+    for (const n of [i + 1, i + w]) {
+      if (n === i + 1 && (i + 1) % w === 0) continue;
+      if (n >= w * h || open[n] !== 1) continue;
+      adjacencies++;
+      if (owner[i] !== owner[n]) {
+        borders++;
+        touching.add(Math.min(owner[i], owner[n]) * colors + Math.max(owner[i], owner[n]));
+      }
+    }
+  }
+
+  const pathEdges = solutionPaths.reduce((sum, path) => sum + path.length - 1, 0);
+  const colorPairs = (colors * (colors - 1)) / 2;
+  const border = adjacencies > pathEdges ? borders / (adjacencies - pathEdges) : 0;
+  const proximity = touching.size / colorPairs;
+
+  const boxes = solutionPaths.map(path => {
+    const xs = path.map(i => i % w);
+    const ys = path.map(i => Math.floor(i / w));
+    return {
+      x0: Math.min(...xs),
+      x1: Math.max(...xs) + 1,
+      y0: Math.min(...ys),
+      y1: Math.max(...ys) + 1
+    };
+  });
+  let overlap = 0;
+  for (let a = 0; a < colors; a++) {
+    for (let b = a + 1; b < colors; b++) {
+      const p = boxes[a];
+      const q = boxes[b];
+      const shared = Math.max(0, Math.min(p.x1, q.x1) - Math.max(p.x0, q.x0)) *
+        Math.max(0, Math.min(p.y1, q.y1) - Math.max(p.y0, q.y0));
+      const smaller = Math.min((p.x1 - p.x0) * (p.y1 - p.y0), (q.x1 - q.x0) * (q.y1 - q.y0));
+      overlap += shared / smaller;
+    }
+  }
+  const nesting = overlap / colorPairs;
+
+  return (border + proximity + nesting) / 3;
+}
+
+/**
+ * Cells of 1-wide tunnels: dead ends, straight passages, and bends whose
+ * inner diagonal is closed (an open diagonal makes the bend part of a 2x2
+ * block, which is at least 2 wide)
+ */
+function countCorridorCells(open: Uint8Array, w: number, h: number): number {
+  let corridors = 0;
+  for (let i = 0; i < open.length; i++) {
+    if (open[i] !== 1) continue;
+    const exits = neighbors(i, w, h).filter(n => open[n] === 1);
+
+    if (exits.length === 1) {
+      corridors++;
+    } else if (exits.length === 2) {
+      const [a, b] = exits;
+      // a + b - i is the diagonal cell between the two exits of a bend
+      const straight = a - i === i - b;
+      if (straight || open[a + b - i] !== 1) corridors++;
+    }
+  }
+  return corridors;
+}
+
+function neighbors(i: number, w: number, h: number): number[] {
+  const x = i % w;
+  const y = Math.floor(i / w);
+  const result: number[] = [];
+  if (x > 0) result.push(i - 1);
+  if (x < w - 1) result.push(i + 1);
+  if (y > 0) result.push(i - w);
+  if (y < h - 1) result.push(i + w);
+  return result;
+}
@@ -116,22 +116,26 @@ export class PaintModel {
     return coveredCells.size === this.openCells.size;
   }
 
+  /**
+   * Whether a path begins where its color must: at the color's start cell,
+   * or in Mode 3 at either of its pair ends
+   */
+  startsAtOrigin(color: number, path: number[]): boolean {
+    return path.length > 0 && this.startCells.get(path[0]) === color;
+  }
+
   checkWin(paths: Map<number, number[]>, mode: number): boolean {
     if (this.checkOverlap(paths)) return false;
     
     if (!this.checkCoverage(paths)) return false;
     
-    if (mode === 1) {
-      return paths.size === 1 && this.checkCoverage(paths);
-    } else if (mode === 2) {
+    if (mode === 1 || mode === 2) {
+      // Every color is drawn from its own start, and only those colors
+      const colors = new Set(this.startCells.values());
       for (const [color, path] of paths) {
-        const startIndex = Array.from(this.startCells.entries())
-          .find(([, c]) => c === color)?.[0];
-        if (startIndex !== undefined && !path.includes(startIndex)) {
-          return false;
-        }
+        if (path.length > 0 && !colors.has(color)) return false;
       }
-      return true;
+      return [...colors].every(color => this.startsAtOrigin(color, paths.get(color) ?? []));
     } else if (mode === 3) {
       for (const [color, path] of paths) {
         const endpoints = Array.from(this.endCells.entries())
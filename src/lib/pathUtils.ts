@@ -35,13 +35,27 @@ export function getNeighbors(index: number, width: number, height: number, openC
   return neighbors;
 }
 
+// Extra steps, beyond the straight-line distance, an interpolated route may take
+export const MAX_INTERPOLATION_DETOUR = 2;
+
+export interface InterpolationOptions {
+  obstacles?: Iterable<number>; // cells the route may not enter, such as other colors' cells
+  maxDetour?: number;
+}
+
+/**
+ * Shortest route from start to end, excluding start, through open cells
+ * outside blockedCells
+ * @returns null when end cannot be reached in at most maxLength steps
+ */
 export function findPathBetween(
   start: number, 
   end: number, 
   width: number, 
   height: number, 
   openCells: Uint8Array,
-  blockedCells: Set<number> = new Set()
+  blockedCells: Set<number> = new Set(),
+  maxLength = Infinity
 ): number[] | null {
   if (start === end) return [];
   
@@ -64,7 +78,7 @@ export function findPathBetween(
         return [...path, neighbor];
       }
       
-      if (!visited.has(neighbor)) {
+      if (!visited.has(neighbor) && path.length + 1 < maxLength) {
         visited.add(neighbor);
         queue.push({ cell: neighbor, path: [...path, neighbor] });
       }
@@ -74,14 +88,51 @@ export function findPathBetween(
   return null;
 }
 
+/**
+ * The staircase of cells closest to the straight line between two cells,
+ * excluding fromCell: each step moves along whichever axis lags the line
+ */
+export function straightRoute(fromCell: number, toCell: number, width: number): number[] {
+  const x0 = fromCell % width;
+  const y0 = Math.floor(fromCell / width);
+  const x1 = toCell % width;
+  const y1 = Math.floor(toCell / width);
+  const dx = Math.abs(x1 - x0);
+  const dy = Math.abs(y1 - y0);
+  const sx = Math.sign(x1 - x0);
+  const sy = Math.sign(y1 - y0);
+
+  const route: number[] = [];
+  let x = x0;
+  let y = y0;
+  while (x !== x1 || y !== y1) {
+    const stepX = x !== x1 && (y === y1 || (Math.abs(x - x0) + 0.5) / dx < (Math.abs(y - y0) + 0.5) / dy);
+    if (stepX) x += sx;
+    else y += sy;
+    route.push(y * width + x);
+  }
+  return route;
+}
+
+/**
+ * Fills the cells a fast drag skipped between fromCell and toCell. The
+ * straight line the pointer traced is preferred; when it is blocked the
+ * shortest way around is taken, unless that detours more than maxDetour
+ * steps. Neither route enters the obstacles or the drag's own path.
+ * @returns the cells to add, ending with toCell, or null when no route fits
+ */
 export function interpolatePath(
   fromCell: number,
   toCell: number,
   width: number,
   height: number,
   openCells: Uint8Array,
-  existingPath: number[]
+  existingPath: number[],
+  { obstacles = [], maxDetour = MAX_INTERPOLATION_DETOUR }: InterpolationOptions = {}
 ): number[] | null {
+  const obstacleCells = new Set(obstacles);
+  if (obstacleCells.has(toCell)) return null;
+  
   // If cells are neighbors, no interpolation needed
   if (areNeighbors(fromCell, toCell, width)) {
     return [toCell];
@@ -98,9 +149,11 @@ export function interpolatePath(
     // Backtracking - block cells before the backtrack point
     blockedCells = new Set(existingPath.slice(0, toIndex));
   }
+  for (const cell of obstacleCells) blockedCells.add(cell);
   
-  // Find shortest path between the cells
-  const path = findPathBetween(fromCell, toCell, width, height, openCells, blockedCells);
+  const line = straightRoute(fromCell, toCell, width);
+  if (line.every(cell => openCells[cell] === 1 && !blockedCells.has(cell))) return line;
   
-  return path;
-}
\ No newline at end of file
+  // Otherwise the shortest path around, within the detour cap
+  return findPathBetween(fromCell, toCell, width, height, openCells, blockedCells, line.length + maxDetour);
+}
@@ -1,9 +1,49 @@
+export type PRNGAlgorithm = 'mulberry32' | 'xorshift128+';
+
+/**
+ * How each share-code version (`v`) turns a seed string into numbers.
+ * Published versions are frozen so old links keep producing their levels:
+ * v1 pairs a 32-bit Java-style hash with Mulberry32; v2 hashes the seed
+ * into 128 bits with cyrb128 and feeds xorshift128+.
+ */
+const PRNG_VERSIONS: Record<number, { hash: 'java' | 'cyrb128'; algorithm: PRNGAlgorithm }> = {
+  1: { hash: 'java', algorithm: 'mulberry32' },
+  2: { hash: 'cyrb128', algorithm: 'xorshift128+' }
+};
+
+// The version new share codes are written with
+export const LATEST_PRNG_VERSION = 2;
+
 export class PRNG {
+  readonly algorithm: PRNGAlgorithm;
   private seed: number;
   private a: number;
+  // xorshift128+ state as two 64-bit words, each split into 32-bit halves
+  private s0h = 0;
+  private s0l = 0;
+  private s1h = 0;
+  private s1l = 0;
 
-  constructor(seed: string | number) {
-    this.seed = typeof seed === 'string' ? this.hashString(seed) : seed;
+  /**
+   * @param version Share-code version selecting the hash and algorithm;
+   * a numeric seed always seeds Mulberry32 directly
+   */
+  constructor(seed: string | number, version: number = 1) {
+    const config = PRNG_VERSIONS[version];
+    if (!config) throw new Error(`Unsupported share code version: ${version}`);
+
+    this.algorithm = typeof seed === 'number' ? 'mulberry32' : config.algorithm;
+    if (typeof seed === 'number') {
+      this.seed = seed;
+    } else if (config.hash === 'java') {
+      this.seed = this.hashString(seed);
+    } else {
+      const [h1, h2, h3, h4] = cyrb128(seed);
+      this.seed = h1;
+      [this.s0h, this.s0l, this.s1h, this.s1l] = [h1, h2, h3, h4];
+      // An all-zero state would only ever produce zeros
+      if ((h1 | h2 | h3 | h4) === 0) this.s1l = 1;
+    }
     this.a = this.seed;
   }
 
@@ -14,6 +54,31 @@ export class PRNG {
     return ((t ^ t >>> 14) >>> 0) / 4294967296;
   }
 
+  /**
+   * xorshift128+ (Vigna) on 32-bit halves; the top 53 bits of the 64-bit
+   * sum become the double
+   */
+  private xorshift128plus(): number {
+    let xh = this.s0h;
+    let xl = this.s0l;
+    const yh = this.s1h;
+    const yl = this.s1l;
+
+    const sumLow = (xl >>> 0) + (yl >>> 0);
+    const sumHigh = (xh + yh + (sumLow > 0xFFFFFFFF ? 1 : 0)) >>> 0;
+
+    this.s0h = yh;
+    this.s0l = yl;
+    // x ^= x << 23
+    xh ^= (xh << 23) | (xl >>> 9);
+    xl ^= xl << 23;
+    // s1 = x ^ y ^ (x >> 18) ^ (y >> 5)
+    this.s1h = (xh ^ yh ^ (xh >>> 18) ^ (yh >>> 5)) >>> 0;
+    this.s1l = (xl ^ yl ^ ((xl >>> 18) | (xh << 14)) ^ ((yl >>> 5) | (yh << 27))) >>> 0;
+
+    return (sumHigh * 2097152 + ((sumLow >>> 0) >>> 11)) / 9007199254740992;
+  }
+
   private hashString(str: string): number {
     let hash = 0;
     for (let i = 0; i < str.length; i++) {
@@ -25,7 +90,7 @@ export class PRNG {
   }
 
   random(): number {
-    return this.mulberry32();
+    return this.algorithm === 'mulberry32' ? this.mulberry32() : this.xorshift128plus();
   }
 
   randInt(min: number, max: number): number {
@@ -54,4 +119,30 @@ export class PRNG {
     }
     return items[items.length - 1];
   }
-}
\ No newline at end of file
+}
+
+/**
+ * cyrb128 (bryc): hashes a string into four well-mixed 32-bit words
+ */
+function cyrb128(str: string): [number, number, number, number] {
+  let h1 = 1779033703;
+  let h2 = 3144134277;
+  let h3 = 1013904242;
+  let h4 = 2773480762;
+  for (let i = 0; i < str.length; i++) {
+    const k = str.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  h1 ^= h2 ^ h3 ^ h4;
+  h2 ^= h1;
+  h3 ^= h1;
+  h4 ^= h1;
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+}
@@ -1,4 +1,13 @@
-import { GameParams, DifficultyTier, Mode } from '@/types';
+import { GameParams, DifficultyTier, Mode, StartPlacement } from '@/types';
+import { LATEST_PRNG_VERSION } from './prng';
+import { MIN_SEGMENT_LENGTH } from './segments';
+
+const START_PLACEMENTS: StartPlacement[] = ['random', 'boundary', 'interior'];
+
+// Advanced tokens that do not parse to a finite number are ignored
+function finite(value: number): number | undefined {
+  return Number.isFinite(value) ? value : undefined;
+}
 
 export function generateSeed(length: number = 8): string {
   const chars = '0123456789abcdefghijklmnopqrstuvwxyz';
@@ -45,9 +54,35 @@ export function parseShareCode(hash: string): GameParams {
       case 'seed':
         params.seed = value;
         break;
+      case 'fr':
+        params.fr = finite(parseFloat(value));
+        break;
+      case 'tr':
+        params.tr = finite(parseFloat(value));
+        break;
+      case 'cp':
+        params.cp = finite(parseFloat(value));
+        break;
+      case 'lmin':
+        params.lmin = finite(parseInt(value, 10));
+        break;
+      case 'lmax':
+        params.lmax = finite(parseInt(value, 10));
+        break;
+      case 'sp':
+        if (START_PLACEMENTS.includes(value as StartPlacement)) params.sp = value as StartPlacement;
+        break;
+      case 'lc':
+        params.lc = value;
+        break;
     }
   }
   
+  // Segments are never shorter than MIN_SEGMENT_LENGTH, and lmax never
+  // falls below lmin
+  if (params.lmin !== undefined) params.lmin = Math.max(MIN_SEGMENT_LENGTH, params.lmin);
+  if (params.lmax !== undefined) params.lmax = Math.max(MIN_SEGMENT_LENGTH, params.lmin ?? 0, params.lmax);
+  
   return params;
 }
 
@@ -62,6 +97,13 @@ export function serializeShareCode(params: GameParams): string {
   if (params.hd !== undefined) parts.push(`hd=${params.hd}`);
   if (params.diff !== undefined) parts.push(`diff=${params.diff}`);
   if (params.seed !== undefined) parts.push(`seed=${params.seed}`);
+  if (params.fr !== undefined) parts.push(`fr=${params.fr}`);
+  if (params.tr !== undefined) parts.push(`tr=${params.tr}`);
+  if (params.cp !== undefined) parts.push(`cp=${params.cp}`);
+  if (params.lmin !== undefined) parts.push(`lmin=${params.lmin}`);
+  if (params.lmax !== undefined) parts.push(`lmax=${params.lmax}`);
+  if (params.sp !== undefined) parts.push(`sp=${params.sp}`);
+  if (params.lc !== undefined) parts.push(`lc=${params.lc}`);
   
   return '#' + parts.join(';');
 }
@@ -86,7 +128,7 @@ export const DEFAULT_PARAMS: Record<DifficultyTier, Record<Mode, GameParams>> =
 
 export function getDefaultParams(mode: Mode = 1, difficulty: DifficultyTier = 'medium'): GameParams {
   return {
-    v: 1,
+    v: LATEST_PRNG_VERSION,
     m: mode,
     diff: difficulty,
     seed: generateSeed(),
@@ -0,0 +1,108 @@
+import { StartPlacement } from '@/types';
+import { PRNG } from './prng';
+
+// Multi-path segmentation (M2-P)
+export const MIN_SEGMENT_LENGTH = 3;
+const SEGMENT_LENGTH_SPREAD = 0.5;
+
+// Pinned length bounds (share-code lmin/lmax)
+export interface SegmentLengths {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Cuts a path into k contiguous segments. Every segment gets at least
+ * MIN_SEGMENT_LENGTH cells, and lengths stay within SEGMENT_LENGTH_SPREAD
+ * of the average so no color is a stub and none swallows the board.
+ * Pinned bounds replace the spread; they are relaxed only as far as needed
+ * for k segments to cover the path.
+ */
+export function segmentPath(
+  path: number[],
+  k: number,
+  prng: PRNG,
+  lengths: SegmentLengths = {}
+): number[][] {
+  const n = path.length;
+  const count = Math.max(1, Math.min(k, Math.floor(n / MIN_SEGMENT_LENGTH)));
+  const average = n / count;
+  const minLength = Math.min(
+    Math.floor(average),
+    Math.max(MIN_SEGMENT_LENGTH, lengths.min ?? Math.floor(average * (1 - SEGMENT_LENGTH_SPREAD)))
+  );
+  const maxLength = Math.max(
+    Math.ceil(average),
+    lengths.max ?? Math.ceil(average * (1 + SEGMENT_LENGTH_SPREAD))
+  );
+
+  // Start every segment at the minimum, then hand out the remaining
+  // cells one at a time to segments that are still below the maximum
+  const sizes: number[] = new Array(count).fill(minLength);
+  let remaining = n - minLength * count;
+  while (remaining > 0) {
+    const growable: number[] = [];
+    for (let i = 0; i < count; i++) {
+      if (sizes[i] < maxLength) growable.push(i);
+    }
+    sizes[prng.choice(growable)]++;
+    remaining--;
+  }
+
+  const segments: number[][] = [];
+  let offset = 0;
+  for (const length of sizes) {
+    segments.push(path.slice(offset, offset + length));
+    offset += length;
+  }
+  return segments;
+}
+
+/**
+ * Picks which end of each segment becomes its start; the segment is
+ * reversed when needed so that it always begins at the start cell
+ */
+export function orientSegments(segments: number[][], prng: PRNG): number[][] {
+  return segments.map(segment =>
+    prng.random() < 0.5 ? segment : segment.slice().reverse()
+  );
+}
+
+/**
+ * Reverses the segment when its start is not at the end the placement
+ * asks for; 'random' keeps whatever orientSegments picked
+ */
+export function placeStart(
+  segment: number[],
+  placement: StartPlacement,
+  open: Uint8Array,
+  w: number
+): number[] {
+  return followsPlacement(segment, placement, open, w) ? segment : segment.slice().reverse();
+}
+
+/**
+ * True when the segment's start sits at the end its placement asks for
+ * (ties satisfy either policy)
+ */
+export function followsPlacement(
+  segment: number[],
+  placement: StartPlacement,
+  open: Uint8Array,
+  w: number
+): boolean {
+  if (placement !== 'boundary' && placement !== 'interior') return true;
+  const start = openDegree(segment[0], open, w);
+  const end = openDegree(segment[segment.length - 1], open, w);
+  return placement === 'boundary' ? start <= end : start >= end;
+}
+
+function openDegree(i: number, open: Uint8Array, w: number): number {
+  const x = i % w;
+  let degree = 0;
+  if (x > 0 && open[i - 1]) degree++;
+  if (x < w - 1 && open[i + 1]) degree++;
+  if (open[i - w]) degree++;
+  if (open[i + w]) degree++;
+  return degree;
+}
@@ -0,0 +1,532 @@
+import { Level, SolutionCount, SolveResult } from '@/types';
+import { PRNG } from './prng';
+
+const DEFAULT_NODE_LIMIT = 200000;
+const DEFAULT_COUNT_CAP = 2;
+// Searches on hard regions are heavy-tailed: short restarts with shuffled
+// tie-breaks usually finish long before one long run would
+const RESTART_NODES_PER_CELL = 20;
+const MAX_RESTARTS = 12;
+const RESTART_DEGREE_NOISE = 1;
+
+export interface SolveOptions {
+  /** Search nodes before giving up with status 'unknown' */
+  nodeLimit?: number;
+  /** Date.now() value after which the search gives up with status 'unknown' */
+  deadline?: number;
+}
+
+export interface CountOptions extends SolveOptions {
+  /** Stop counting once this many solutions are found (2 answers "is it unique?") */
+  cap?: number;
+}
+
+interface SolverState {
+  mode: number;
+  width: number;
+  height: number;
+  open: Uint8Array;
+  owner: Int16Array; // -1 = free, -2 = blocked, otherwise the owning color
+  paths: number[][]; // per color, running from its start (or pair end a)
+  targets: number[]; // Mode 3: the pair end each path must reach, otherwise -1
+  done: boolean[];
+  free: number;
+  nodes: number;
+  nodeLimit: number;
+  deadline: number;
+  prng: PRNG | null; // tie-break shuffling, null for the plain ordering
+  onSolution: (paths: number[][]) => boolean; // return true to stop the search
+}
+
+class SearchAborted extends Error {}
+
+/**
+ * Backtracking solver for all three modes
+ *
+ * Modes 1/2 grow one path per color from its revealed start; Mode 3 connects
+ * each pair. Every open cell must be covered. The player's partial paths are
+ * taken as fixed prefixes. At each node the color with the fewest onward
+ * moves is extended (minimum forward degree), trying corridor cells first,
+ * and states are cut early when a free cell is an island or an extra dead
+ * end, when the free cells split into more pockets than there are live
+ * colors, when a pocket no live color can reach, or when a pocket that only
+ * one color can fill has the wrong checkerboard balance (which catches
+ * 2x2 parity traps) or a cut cell with two branches hanging off it.
+ *
+ * A few short restarts with seeded tie-breaks run first; the last run uses
+ * whatever budget is left, so 'unsolvable' is always an exhaustive answer.
+ */
+export function solveLevel(
+  level: Level,
+  playerPaths: Map<number, number[]> = new Map(),
+  options: SolveOptions = {}
+): SolveResult {
+  const nodeLimit = options.nodeLimit ?? DEFAULT_NODE_LIMIT;
+  const deadline = options.deadline ?? Infinity;
+  let restartLimit = level.open.length * RESTART_NODES_PER_CELL;
+  let used = 0;
+
+  for (let run = 0; run <= MAX_RESTARTS; run++, restartLimit *= 2) {
+    const last = run === MAX_RESTARTS || used + restartLimit * 2 > nodeLimit;
+    const state = createState(level, playerPaths);
+    if (!state) return { status: 'unsolvable' };
+    state.nodeLimit = last ? nodeLimit - used : restartLimit;
+    state.deadline = deadline;
+    state.prng = run === 0 ? null : new PRNG(`solve#${run}`);
+    const found: number[][][] = [];
+    state.onSolution = paths => {
+      found.push(paths);
+      return true;
+    };
+
+    try {
+      return search(state)
+        ? { status: 'solved', paths: found[0] }
+        : { status: 'unsolvable' };
+    } catch (error) {
+      if (!(error instanceof SearchAborted)) throw error;
+      used += state.nodes;
+      if (last || Date.now() > deadline) break;
+    }
+  }
+
+  return { status: 'unknown' };
+}
+
+/**
+ * Counts solutions (from the player's paths, if given) up to options.cap.
+ * Runs a single exhaustive search with the plain move ordering, so each
+ * solution is seen exactly once. `complete` is false when the cap or the
+ * budget stopped the count early; the count is then a lower bound.
+ */
+export function countSolutions(
+  level: Level,
+  playerPaths: Map<number, number[]> = new Map(),
+  options: CountOptions = {}
+): SolutionCount {
+  const cap = options.cap ?? DEFAULT_COUNT_CAP;
+  const state = createState(level, playerPaths);
+  if (!state) return { count: 0, complete: true, solutions: [] };
+  state.nodeLimit = options.nodeLimit ?? DEFAULT_NODE_LIMIT;
+  state.deadline = options.deadline ?? Infinity;
+
+  const solutions: number[][][] = [];
+  state.onSolution = paths => solutions.push(paths) >= cap;
+
+  try {
+    const stopped = search(state);
+    return { count: solutions.length, complete: !stopped, solutions };
+  } catch (error) {
+    if (error instanceof SearchAborted) return { count: solutions.length, complete: false, solutions };
+    throw error;
+  }
+}
+
+/**
+ * Builds the search state, applying the player's paths as prefixes.
+ * Returns null when those paths already break the rules.
+ */
+function createState(level: Level, playerPaths: Map<number, number[]>): SolverState | null {
+  const { w, h, open, mode } = level;
+  const owner = new Int16Array(open.length);
+  let free = 0;
+  for (let i = 0; i < open.length; i++) {
+    owner[i] = open[i] === 1 ? -1 : -2;
+    if (open[i] === 1) free++;
+  }
+
+  // Mode 3 reads its ends from pairs (falling back to the paired starts)
+  const ends: [number, number][] = [];
+  if (mode === 3) {
+    const pairs = level.pairs || [];
+    for (const pair of pairs) ends[pair.color] = [pair.a, pair.b];
+    if (pairs.length === 0) {
+      for (const start of level.starts) {
+        if (ends[start.color]) ends[start.color][1] = start.i;
+        else ends[start.color] = [start.i, -1];
+      }
+    }
+  } else {
+    for (const start of level.starts) ends[start.color] = [start.i, -1];
+  }
+
+  const colors = ends.length;
+  const paths: number[][] = [];
+  const targets: number[] = [];
+  for (let color = 0; color < colors; color++) {
+    const [a, b] = ends[color] || [-1, -1];
+    if (a < 0 || owner[a] !== -1 || (mode === 3 && (b < 0 || owner[b] !== -1 || a === b))) {
+      return null;
+    }
+    owner[a] = color;
+    free--;
+    if (mode === 3) {
+      owner[b] = color;
+      free--;
+    }
+    paths.push([a]);
+    targets.push(mode === 3 ? b : -1);
+  }
+
+  const state: SolverState = {
+    mode,
+    width: w,
+    height: h,
+    open,
+    owner,
+    paths,
+    targets,
+    done: new Array(colors).fill(false),
+    free,
+    nodes: 0,
+    nodeLimit: Infinity,
+    deadline: Infinity,
+    prng: null,
+    onSolution: () => true
+  };
+
+  for (const [color, playerPath] of playerPaths) {
+    if (playerPath.length === 0) continue;
+    if (color < 0 || color >= colors) return null;
+    if (!applyPrefix(state, color, playerPath)) return null;
+  }
+
+  return state;
+}
+
+/**
+ * Lays a player path down as the fixed prefix of its color. The path may
+ * have been drawn from either end; in Mode 3 it may start at either pair end.
+ */
+function applyPrefix(state: SolverState, color: number, playerPath: number[]): boolean {
+  const start = state.paths[color][0];
+  const target = state.targets[color];
+  let prefix = playerPath;
+
+  if (prefix[0] !== start) {
+    if (state.mode === 3 && prefix[0] === target) {
+      // Drawn from the other end: swap which end the search grows from
+      state.paths[color] = [target];
+      state.targets[color] = start;
+    } else if (prefix[prefix.length - 1] === start ||
+               (state.mode === 3 && prefix[prefix.length - 1] === target)) {
+      return applyPrefix(state, color, prefix.slice().reverse());
+    } else {
+      return false;
+    }
+  }
+
+  prefix = prefix.slice(1);
+  for (const cell of prefix) {
+    if (state.done[color]) return false;
+    const head = state.paths[color][state.paths[color].length - 1];
+    if (!areNeighbors(state, head, cell)) return false;
+
+    if (cell === state.targets[color]) {
+      state.paths[color].push(cell);
+      state.done[color] = true;
+      continue;
+    }
+    if (state.owner[cell] !== -1) return false;
+    state.owner[cell] = color;
+    state.paths[color].push(cell);
+    state.free--;
+  }
+
+  return true;
+}
+
+function search(state: SolverState): boolean {
+  if (++state.nodes > state.nodeLimit || Date.now() > state.deadline) {
+    throw new SearchAborted();
+  }
+
+  if (state.free === 0) {
+    const paths = completedPaths(state);
+    return paths !== null && state.onSolution(paths);
+  }
+
+  if (isDeadState(state)) return false;
+
+  // Minimum forward degree: extend the live color with the fewest moves
+  let color = -1;
+  let moves: number[] = [];
+  for (let c = 0; c < state.paths.length; c++) {
+    if (state.done[c]) continue;
+    const options = forwardMoves(state, c);
+    if (color === -1 || options.length < moves.length) {
+      color = c;
+      moves = options;
+    }
+    if (moves.length === 0) break;
+  }
+  if (color === -1) return false;
+
+  const path = state.paths[color];
+  for (const cell of moves) {
+    if (cell === state.targets[color]) {
+      path.push(cell);
+      state.done[color] = true;
+      if (search(state)) return true;
+      state.done[color] = false;
+      path.pop();
+      continue;
+    }
+
+    state.owner[cell] = color;
+    path.push(cell);
+    state.free--;
+    if (search(state)) return true;
+    state.free++;
+    path.pop();
+    state.owner[cell] = -1;
+  }
+
+  // Modes 1/2: a path may also stop here and leave the rest to other colors
+  if (state.mode !== 3 && state.paths.length > 1) {
+    state.done[color] = true;
+    if (search(state)) return true;
+    state.done[color] = false;
+  }
+
+  return false;
+}
+
+/**
+ * Moves for a color, corridor cells (fewest onward moves) first. In Mode 3
+ * stepping onto the color's own pair end comes before everything else.
+ */
+function forwardMoves(state: SolverState, color: number): number[] {
+  const path = state.paths[color];
+  const head = path[path.length - 1];
+  const target = state.targets[color];
+  const moves: number[] = [];
+  let reachesTarget = false;
+
+  for (const n of neighbors(state, head)) {
+    if (n === target) reachesTarget = true;
+    else if (state.owner[n] === -1) moves.push(n);
+  }
+
+  // Restarts add noise to the degree so they also try near-best moves first
+  const prng = state.prng;
+  const keys = new Map(moves.map(cell => [
+    cell,
+    freeDegree(state, cell) + (prng ? prng.random() * RESTART_DEGREE_NOISE : 0)
+  ]));
+  moves.sort((a, b) => keys.get(a)! - keys.get(b)!);
+  if (reachesTarget) moves.unshift(target);
+  return moves;
+}
+
+/**
+ * Copies the paths once every cell is covered. Mode 3 heads still have to
+ * step onto their pair ends; returns null when one of them cannot.
+ */
+function completedPaths(state: SolverState): number[][] | null {
+  const paths: number[][] = [];
+  for (let color = 0; color < state.paths.length; color++) {
+    const path = state.paths[color].slice();
+    if (state.mode === 3 && !state.done[color]) {
+      if (!areNeighbors(state, path[path.length - 1], state.targets[color])) return null;
+      path.push(state.targets[color]);
+    }
+    paths.push(path);
+  }
+  return paths;
+}
+
+/**
+ * Necessary conditions on the free cells; true means no completion exists
+ */
+function isDeadState(state: SolverState): boolean {
+  const { owner, paths, targets, done, mode } = state;
+  const live: number[] = [];
+  for (let color = 0; color < paths.length; color++) {
+    if (!done[color]) live.push(color);
+  }
+  if (live.length === 0) return true;
+
+  // Cells that a live path can step from: heads (and, in Mode 3, pair ends)
+  const liveHead = new Int16Array(owner.length).fill(-1);
+  const liveTarget = new Int16Array(owner.length).fill(-1);
+  for (const color of live) {
+    liveHead[paths[color][paths[color].length - 1]] = color;
+    if (mode === 3) liveTarget[targets[color]] = color;
+  }
+
+  // Islands and dead ends: in Modes 1/2 a free cell with a single way in
+  // must be the end of a path; in Mode 3 every free cell is passed through
+  const degree = new Int8Array(owner.length);
+  let deadEnds = 0;
+  for (let i = 0; i < owner.length; i++) {
+    if (owner[i] !== -1) continue;
+    for (const n of neighbors(state, i)) {
+      if (owner[n] === -1 || liveHead[n] !== -1 || liveTarget[n] !== -1) degree[i]++;
+    }
+    if (degree[i] === 0) return true;
+    if (degree[i] === 1) {
+      if (mode === 3) return true;
+      if (++deadEnds > live.length) return true;
+    }
+  }
+
+  // Pockets: a path cannot leave the pocket it enters, so every pocket needs
+  // a live color of its own
+  const component = new Int32Array(owner.length).fill(-1);
+  let pockets = 0;
+  const soleColorOf: number[] = [];
+  for (let i = 0; i < owner.length; i++) {
+    if (owner[i] !== -1 || component[i] !== -1) continue;
+
+    const cells: number[] = [i];
+    component[i] = pockets;
+    const touching = new Set<number>();
+    const touchingTarget = new Set<number>();
+    for (let k = 0; k < cells.length; k++) {
+      for (const n of neighbors(state, cells[k])) {
+        if (owner[n] === -1) {
+          if (component[n] === -1) {
+            component[n] = pockets;
+            cells.push(n);
+          }
+        } else {
+          if (liveHead[n] !== -1) touching.add(liveHead[n]);
+          if (liveTarget[n] !== -1) touchingTarget.add(liveTarget[n]);
+        }
+      }
+    }
+
+    // In Mode 3 a path has to leave the pocket again to reach its end
+    const fillers = mode === 3
+      ? [...touching].filter(color => touchingTarget.has(color))
+      : [...touching];
+    if (fillers.length === 0) return true;
+
+    if (fillers.length === 1) {
+      const color = fillers[0];
+      // Two pockets that only the same color can fill
+      if (soleColorOf.includes(color)) return true;
+      soleColorOf.push(color);
+      if (!hasPathParity(state, cells, color, degree)) return true;
+      if (mode !== 3 && hasStrandedBranch(state, component, pockets, color)) return true;
+    }
+
+    pockets++;
+    if (pockets > live.length) return true;
+  }
+
+  // Mode 3: every live pair must still be joinable
+  if (mode === 3) {
+    for (const color of live) {
+      const head = paths[color][paths[color].length - 1];
+      if (areNeighbors(state, head, targets[color])) continue;
+      const headPockets = new Set(neighbors(state, head).map(n => component[n]).filter(id => id !== -1));
+      if (!neighbors(state, targets[color]).some(n => headPockets.has(component[n]))) return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Checkerboard balance for a pocket filled by a single path. Cells along a
+ * path alternate colours, starting with the colour opposite its head; in
+ * Mode 3 the path must also arrive next to its pair end. In Modes 1/2 a dead
+ * end in the pocket has to be the last cell, whose colour the balance fixes.
+ */
+function hasPathParity(
+  state: SolverState,
+  cells: number[],
+  color: number,
+  degree: Int8Array
+): boolean {
+  const path = state.paths[color];
+  const head = path[path.length - 1];
+  const headParity = parity(state, head);
+  let opposite = 0;
+  for (const cell of cells) {
+    if (parity(state, cell) !== headParity) opposite++;
+  }
+  const balance = opposite - (cells.length - opposite);
+
+  if (state.mode === 3) {
+    return parity(state, state.targets[color]) === headParity ? balance === 1 : balance === 0;
+  }
+  if (balance !== 0 && balance !== 1) return false;
+
+  const endParity = balance === 1 ? 1 - headParity : headParity;
+  let ends = 0;
+  for (const cell of cells) {
+    if (degree[cell] === 1 && (++ends > 1 || parity(state, cell) !== endParity)) return false;
+  }
+  return true;
+}
+
+/**
+ * Modes 1/2, pocket filled by a single path from its head: the path crosses a
+ * cut cell once and can never come back, so at most one branch beyond any
+ * cut cell may be left for later. Found with a lowpoint DFS from the head.
+ */
+function hasStrandedBranch(
+  state: SolverState,
+  component: Int32Array,
+  pocket: number,
+  color: number
+): boolean {
+  const path = state.paths[color];
+  const head = path[path.length - 1];
+  const discovery = new Int32Array(component.length).fill(-1);
+  const low = new Int32Array(component.length);
+  let time = 0;
+
+  const visit = (cell: number, isRoot: boolean): boolean => {
+    discovery[cell] = low[cell] = time++;
+    let separated = 0;
+    for (const n of neighbors(state, cell)) {
+      if (n !== head && component[n] !== pocket) continue;
+      if (discovery[n] === -1) {
+        if (visit(n, false)) return true;
+        low[cell] = Math.min(low[cell], low[n]);
+        if (!isRoot && low[n] >= discovery[cell] && ++separated > 1) return true;
+      } else {
+        low[cell] = Math.min(low[cell], discovery[n]);
+      }
+    }
+    return false;
+  };
+
+  return visit(head, true);
+}
+
+function parity(state: SolverState, cell: number): number {
+  return (cell % state.width + Math.floor(cell / state.width)) % 2;
+}
+
+function freeDegree(state: SolverState, cell: number): number {
+  let degree = 0;
+  for (const n of neighbors(state, cell)) {
+    if (state.owner[n] === -1) degree++;
+  }
+  return degree;
+}
+
+function areNeighbors(state: SolverState, a: number, b: number): boolean {
+  const dx = Math.abs(a % state.width - b % state.width);
+  const dy = Math.abs(Math.floor(a / state.width) - Math.floor(b / state.width));
+  return dx + dy === 1;
+}
+
+function neighbors(state: SolverState, cell: number): number[] {
+  const { width, height, open } = state;
+  const x = cell % width;
+  const y = Math.floor(cell / width);
+  const result: number[] = [];
+
+  if (x > 0 && open[cell - 1]) result.push(cell - 1);
+  if (x < width - 1 && open[cell + 1]) result.push(cell + 1);
+  if (y > 0 && open[cell - width]) result.push(cell - width);
+  if (y < height - 1 && open[cell + width]) result.push(cell + width);
+
+  return result;
+}
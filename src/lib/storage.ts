@@ -1,13 +1,18 @@
-import { Level, GameState } from '@/types';
+import { GameState, LevelFile } from '@/types';
+import { fromLevelFile, toLevelFile } from './levelFile';
 
 const STORAGE_KEY = 'blockfill_gamestate';
-const STORAGE_VERSION = 1;
+// Version 2 stores the level in the portable file format; version 1 stored
+// the raw Level, whose Uint8Array serializes as an index-keyed object
+const STORAGE_VERSION = 2;
 
 export interface StoredGameState {
   version: number;
-  level: Level | null;
+  level: LevelFile | null;
   playerPaths: [number, number[]][];
   currentColor: number;
+  history?: [number, number[]][][]; // absent in saves from before undo history was kept
+  historyIndex?: number;
   timestamp: number;
 }
 
@@ -17,9 +22,11 @@ export function saveGameState(state: Partial<GameState>): void {
     
     const storedState: StoredGameState = {
       version: STORAGE_VERSION,
-      level: state.level,
+      level: toLevelFile(state.level),
       playerPaths: Array.from(state.playerPaths || new Map()),
       currentColor: state.currentColor || 0,
+      history: state.history?.map(paths => Array.from(paths)),
+      historyIndex: state.historyIndex,
       timestamp: Date.now()
     };
     
@@ -34,23 +41,27 @@ export function loadGameState(): Partial<GameState> | null {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (!stored) return null;
     
-    const parsed: StoredGameState = JSON.parse(stored);
+    const parsed = JSON.parse(stored);
     
     // Check version compatibility
-    if (parsed.version !== STORAGE_VERSION) {
+    if (parsed.version !== STORAGE_VERSION && parsed.version !== 1) {
       localStorage.removeItem(STORAGE_KEY);
       return null;
     }
     
     // Convert arrays back to proper types
-    if (parsed.level) {
-      parsed.level.open = new Uint8Array(Object.values(parsed.level.open));
-    }
+    const level = !parsed.level
+      ? null
+      : parsed.version === 1
+      ? { ...parsed.level, open: new Uint8Array(Object.values(parsed.level.open)) }
+      : fromLevelFile(parsed.level);
     
     return {
-      level: parsed.level,
+      level,
       playerPaths: new Map(parsed.playerPaths),
-      currentColor: parsed.currentColor
+      currentColor: parsed.currentColor,
+      history: parsed.history?.map((paths: [number, number[]][]) => new Map(paths)),
+      historyIndex: parsed.historyIndex
     };
   } catch (error) {
     console.error('Failed to load game state:', error);
@@ -57,4 +57,20 @@ export class UndoRedoStack<T> {
   getSize(): number {
     return this.stack.length;
   }
-}
\ No newline at end of file
+
+  getIndex(): number {
+    return this.currentIndex;
+  }
+
+  getStates(): T[] {
+    return this.stack.slice();
+  }
+
+  // Replaces the contents, e.g. with a history restored from storage; the
+  // oldest states are dropped beyond maxSize
+  load(states: T[], index: number): void {
+    const dropped = Math.max(0, states.length - this.maxSize);
+    this.stack = states.slice(dropped);
+    this.currentIndex = Math.min(Math.max(index - dropped, 0), this.stack.length - 1);
+  }
+}
@@ -0,0 +1,244 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Level } from '@/types';
+import { fromLevelFile } from '@/lib/levelFile';
+import { decodeLevelCode } from '@/lib/levelCode';
+import { parseShareCode, serializeShareCode } from '@/lib/seed';
+import { useGameStore } from '../gameStore';
+
+// The store saves every change; an in-memory localStorage keeps that quiet
+const memory = new Map<string, string>();
+globalThis.localStorage = {
+  getItem: key => memory.get(key) ?? null,
+  setItem: (key, value) => void memory.set(key, value),
+  removeItem: key => void memory.delete(key),
+  clear: () => memory.clear(),
+  key: index => [...memory.keys()][index] ?? null,
+  get length() {
+    return memory.size;
+  }
+};
+
+// Mode 2 on a 4x2 board: color 0 starts at 0, color 1 at 7
+//   0 1 2 3
+//   4 5 6 7
+const MULTI: Level = fromLevelFile({
+  format: 'block-fill-level',
+  version: 1,
+  mode: 2,
+  w: 4,
+  h: 2,
+  open: ['....', '....'],
+  starts: [0, 7]
+});
+
+function draw(cells: number[]) {
+  const { startDrag, updateDrag, endDrag } = useGameStore.getState();
+  startDrag(cells[0]);
+  for (const cell of cells.slice(1)) updateDrag(cell);
+  endDrag();
+}
+
+function paths() {
+  return Object.fromEntries(useGameStore.getState().playerPaths);
+}
+
+describe('color-aware drawing', () => {
+  beforeEach(() => {
+    memory.clear();
+    useGameStore.getState().setLevel(MULTI);
+  });
+
+  it('selects the color of the pressed start cell', () => {
+    draw([7, 6]);
+    expect(useGameStore.getState().currentColor).toBe(1);
+    draw([0, 1]);
+    expect(useGameStore.getState().currentColor).toBe(0);
+    expect(paths()).toEqual({ 0: [0, 1], 1: [7, 6] });
+  });
+
+  it('continues a path from its tail', () => {
+    draw([0, 1]);
+    draw([7, 6]);
+    draw([1, 2]);
+    expect(paths()).toEqual({ 0: [0, 1, 2], 1: [7, 6] });
+    expect(useGameStore.getState().currentColor).toBe(0);
+  });
+
+  it('cuts a path back to a pressed inner cell', () => {
+    draw([0, 1, 2, 3]);
+    draw([1, 5]);
+    expect(paths()).toEqual({ 0: [0, 1, 5] });
+  });
+
+  it('restarts a color from its start cell', () => {
+    draw([0, 1, 2]);
+    draw([0, 4]);
+    expect(paths()).toEqual({ 0: [0, 4] });
+  });
+});
+
+describe('start cells', () => {
+  beforeEach(() => {
+    memory.clear();
+    useGameStore.getState().setLevel(MULTI);
+  });
+
+  it('rejects strokes that begin away from a start', () => {
+    draw([1, 2]);
+    expect(paths()).toEqual({});
+    expect(useGameStore.getState().rejectedStrokes).toBe(1);
+    draw([5, 6]);
+    expect(useGameStore.getState().rejectedStrokes).toBe(2);
+  });
+
+  it('clears the rejection once a stroke is accepted', () => {
+    draw([1, 2]);
+    draw([0, 1]);
+    expect(paths()).toEqual({ 0: [0, 1] });
+    expect(useGameStore.getState().rejectedStrokes).toBe(0);
+  });
+
+  it('does not enter another color\'s start', () => {
+    draw([0, 1, 2, 3, 7]);
+    expect(paths()).toEqual({ 0: [0, 1, 2, 3] });
+  });
+
+  it('does not step into another color\'s path', () => {
+    draw([7, 6, 5]);
+    draw([0, 1, 5, 4]);
+    expect(paths()).toEqual({ 0: [0, 1], 1: [7, 6, 5] });
+  });
+
+  it('interpolates fast drags around other colors', () => {
+    draw([7, 6]);
+    draw([0, 2]);
+    expect(paths()).toEqual({ 0: [0, 1, 2], 1: [7, 6] });
+    draw([2, 5]);
+    expect(paths()).toEqual({ 0: [0, 1, 2], 1: [7, 6] });
+  });
+});
+
+describe('loaded levels', () => {
+  it('keep their level code as the share link', () => {
+    useGameStore.getState().loadLevel(MULTI);
+    const { params } = useGameStore.getState();
+    expect(params.seed).toBeUndefined();
+    const linked = decodeLevelCode(parseShareCode(serializeShareCode(params)).lc!);
+    expect(linked.starts).toEqual(MULTI.starts);
+    expect(linked.open).toEqual(MULTI.open);
+  });
+});
+
+describe('undo history', () => {
+  beforeEach(() => {
+    memory.clear();
+    useGameStore.getState().setLevel(MULTI);
+  });
+
+  it('undoes and redoes whole strokes', () => {
+    draw([0, 1, 2]);
+    draw([7, 6]);
+    const { undo, redo } = useGameStore.getState();
+    undo();
+    expect(paths()).toEqual({ 0: [0, 1, 2] });
+    undo();
+    expect(paths()).toEqual({});
+    expect(useGameStore.getState().canUndo).toBe(false);
+    redo();
+    redo();
+    expect(paths()).toEqual({ 0: [0, 1, 2], 1: [7, 6] });
+    expect(useGameStore.getState().canRedo).toBe(false);
+  });
+
+  it('records cuts, erases and resets as commands', () => {
+    draw([0, 1, 2, 3]);
+    draw([1]);
+    useGameStore.getState().clearPath(0);
+    useGameStore.getState().reset();
+    expect(useGameStore.getState().history.getSize()).toBe(4);
+    useGameStore.getState().undo();
+    expect(paths()).toEqual({ 0: [0, 1] });
+  });
+
+  it('skips strokes that changed nothing and drops redo on a new stroke', () => {
+    draw([0, 1]);
+    draw([1]);
+    expect(useGameStore.getState().history.getSize()).toBe(2);
+    useGameStore.getState().undo();
+    draw([7, 6]);
+    expect(useGameStore.getState().canRedo).toBe(false);
+    expect(paths()).toEqual({ 1: [7, 6] });
+  });
+
+  it('resumes paths and history when the saved level is loaded again', () => {
+    draw([0, 1]);
+    draw([7, 6]);
+    useGameStore.getState().undo();
+    useGameStore.getState().setLevel(MULTI);
+    expect(paths()).toEqual({ 0: [0, 1] });
+    useGameStore.getState().redo();
+    expect(paths()).toEqual({ 0: [0, 1], 1: [7, 6] });
+  });
+
+  it('restores the history from storage', () => {
+    draw([0, 1]);
+    useGameStore.getState().clearPath(0);
+    useGameStore.getState().loadFromStorage();
+    expect(paths()).toEqual({});
+    useGameStore.getState().undo();
+    expect(paths()).toEqual({ 0: [0, 1] });
+  });
+});
+
+// Mode 3 on a 4x3 board: color 0 joins 0-3, color 1 joins 8-11
+//   0 1  2  3
+//   4 5  6  7
+//   8 9 10 11
+const FLOW: Level = fromLevelFile({
+  format: 'block-fill-level',
+  version: 1,
+  mode: 3,
+  w: 4,
+  h: 3,
+  open: ['....', '....', '....'],
+  pairs: [[0, 3], [8, 11]]
+});
+
+describe('Flow Free drawing rules', () => {
+  beforeEach(() => {
+    memory.clear();
+    useGameStore.getState().setLevel(FLOW);
+  });
+
+  it('only begins paths at a pair end', () => {
+    draw([5, 6]);
+    expect(paths()).toEqual({});
+    draw([3, 7]);
+    expect(paths()).toEqual({ 0: [3, 7] });
+  });
+
+  it('does not enter another color\'s pair end', () => {
+    draw([0, 4, 8]);
+    expect(paths()).toEqual({ 0: [0, 4] });
+  });
+
+  it('stops at the partner end', () => {
+    draw([0, 1, 2, 3, 7]);
+    expect(paths()).toEqual({ 0: [0, 1, 2, 3] });
+  });
+
+  it('cuts through another path and restores it when backing off', () => {
+    draw([8, 4, 5, 6]);
+    const { startDrag, updateDrag, endDrag } = useGameStore.getState();
+    startDrag(0);
+    updateDrag(1);
+    updateDrag(5);
+    expect(paths()).toEqual({ 0: [0, 1, 5], 1: [8, 4] });
+    updateDrag(1);
+    expect(paths()).toEqual({ 0: [0, 1], 1: [8, 4, 5, 6] });
+    updateDrag(5);
+    updateDrag(9);
+    endDrag();
+    expect(paths()).toEqual({ 0: [0, 1, 5, 9], 1: [8, 4] });
+  });
+});
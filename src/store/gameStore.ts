@@ -1,12 +1,11 @@
 import { create } from 'zustand';
-import { Level, GameParams, DifficultyTier } from '@/types';
+import { Level, GameParams, DifficultyTier, WorkerErrorCode, Hint } from '@/types';
 import { saveGameState, loadGameState, clearGameState } from '@/lib/storage';
 import { areNeighbors, interpolatePath } from '@/lib/pathUtils';
-
-interface HistoryEntry {
-  playerPaths: Map<number, number[]>;
-  timestamp: number;
-}
+import { LATEST_PRNG_VERSION } from '@/lib/prng';
+import { sameBoard } from '@/lib/levelFile';
+import { encodeLevelCode } from '@/lib/levelCode';
+import { UndoRedoStack } from '@/lib/undoRedo';
 
 interface GameStore {
   level: Level | null;
@@ -14,13 +13,19 @@ interface GameStore {
   currentColor: number;
   isDragging: boolean;
   dragPath: number[];
-  history: HistoryEntry[];
-  historyIndex: number;
+  strokeBase: Map<number, number[]>; // the paths as they were when the stroke began
+  rejectedStrokes: number; // strokes refused since the last accepted one, to flash the starts
+  history: UndoRedoStack<Map<number, number[]>>; // the paths after each stroke, erase or cut
+  canUndo: boolean;
+  canRedo: boolean;
   params: GameParams;
   isGenerating: boolean;
   error: string | null;
+  errorCode: WorkerErrorCode | null;
+  hint: Hint | null;
   
   setLevel: (level: Level) => void;
+  loadLevel: (level: Level, params?: GameParams) => void;
   setPlayerPaths: (paths: Map<number, number[]>) => void;
   setCurrentColor: (color: number) => void;
   startDrag: (cellIndex: number) => void;
@@ -33,7 +38,8 @@ interface GameStore {
   reset: () => void;
   setParams: (params: Partial<GameParams>) => void;
   setIsGenerating: (generating: boolean) => void;
-  setError: (error: string | null) => void;
+  setError: (error: string | null, code?: WorkerErrorCode) => void;
+  setHint: (hint: Hint | null) => void;
   loadFromStorage: () => void;
   saveToStorage: () => void;
   clearStorage: () => void;
@@ -41,56 +47,199 @@ interface GameStore {
 
 const MAX_HISTORY_SIZE = 50;
 
+function samePaths(a: Map<number, number[]>, b: Map<number, number[]>): boolean {
+  return JSON.stringify([...a]) === JSON.stringify([...b]);
+}
+
+/**
+ * A history starting from the given paths, or restored from a saved game
+ * when it has one
+ */
+function restoreHistory(
+  playerPaths: Map<number, number[]>,
+  saved?: { history?: Map<number, number[]>[]; historyIndex?: number }
+): UndoRedoStack<Map<number, number[]>> {
+  const history = new UndoRedoStack<Map<number, number[]>>(MAX_HISTORY_SIZE);
+  if (saved?.history?.length) history.load(saved.history, saved.historyIndex ?? saved.history.length - 1);
+  else history.push(new Map(playerPaths));
+  return history;
+}
+
+/**
+ * Picks the color and starting path of a stroke from the pressed cell:
+ * - the tail of a path continues that path
+ * - any other cell of a path cuts the path back to it and continues
+ * - a start cell or pair end (re)starts its own color from there
+ * Paths only ever begin at their color's start (or pair end), so a stroke
+ * on any other cell is rejected.
+ * @returns null when no stroke may begin on the cell
+ */
+function beginStroke(
+  level: Level,
+  playerPaths: Map<number, number[]>,
+  cellIndex: number
+): { color: number; path: number[] } | null {
+  const startColor = level.starts.find(start => start.i === cellIndex)?.color;
+
+  for (const [color, path] of playerPaths) {
+    const index = path.indexOf(cellIndex);
+    if (index < 0 || (startColor !== undefined && startColor !== color)) continue;
+    if (index === path.length - 1) return { color, path };
+    if (startColor === undefined) return { color, path: path.slice(0, index + 1) };
+  }
+
+  if (startColor === undefined) return null;
+  return { color: startColor, path: [cellIndex] };
+}
+
+/**
+ * Whether a stroke may step onto the cell next. No path enters another
+ * color's start (or pair end); outside Flow Free no path enters another
+ * color's path either, and in Flow Free a path stops once it reaches its
+ * partner end.
+ */
+function canExtend(
+  level: Level,
+  strokeBase: Map<number, number[]>,
+  path: number[],
+  cellIndex: number,
+  color: number
+): boolean {
+  const startColor = level.starts.find(start => start.i === cellIndex)?.color;
+  if (startColor !== undefined && startColor !== color) return false;
+  if (level.mode !== 3) {
+    for (const [other, otherPath] of strokeBase) {
+      if (other !== color && otherPath.includes(cellIndex)) return false;
+    }
+    return true;
+  }
+
+  const last = path[path.length - 1];
+  const reachedPartner = path.length > 1 && level.starts.some(start => start.i === last && start.color === color);
+  return !reachedPartner;
+}
+
+/**
+ * Cells a fast drag is never interpolated through: other colors' starts and
+ * pair ends and, outside Flow Free (where strokes cut through paths), other
+ * colors' paths
+ */
+function strokeObstacles(level: Level, strokeBase: Map<number, number[]>, color: number): number[] {
+  const obstacles = level.starts.filter(start => start.color !== color).map(start => start.i);
+  if (level.mode === 3) return obstacles;
+
+  for (const [other, path] of strokeBase) {
+    if (other !== color) obstacles.push(...path);
+  }
+  return obstacles;
+}
+
+/**
+ * The paths while a stroke is drawn. In Flow Free the stroke cuts through
+ * other colors: each crossed path is truncated just before the first cell
+ * the stroke covers. Cuts are taken from the paths as they were when the
+ * stroke began, so backing off restores a cut path.
+ */
+function strokePaths(
+  level: Level,
+  strokeBase: Map<number, number[]>,
+  color: number,
+  dragPath: number[]
+): Map<number, number[]> {
+  const paths = new Map(strokeBase).set(color, dragPath);
+  if (level.mode !== 3) return paths;
+
+  const drawn = new Set(dragPath);
+  for (const [other, path] of strokeBase) {
+    if (other === color) continue;
+    const cut = path.findIndex(cell => drawn.has(cell));
+    if (cut === 0) paths.delete(other);
+    else if (cut > 0) paths.set(other, path.slice(0, cut));
+  }
+  return paths;
+}
+
 export const useGameStore = create<GameStore>((set, get) => ({
   level: null,
   playerPaths: new Map(),
   currentColor: 0,
   isDragging: false,
   dragPath: [],
-  history: [],
-  historyIndex: -1,
+  strokeBase: new Map(),
+  rejectedStrokes: 0,
+  history: restoreHistory(new Map()),
+  canUndo: false,
+  canRedo: false,
   params: {
-    v: 1,
+    v: LATEST_PRNG_VERSION,
     m: 1,
     diff: 'medium' as DifficultyTier,
     seed: '',
   },
   isGenerating: false,
   error: null,
+  errorCode: null,
+  hint: null,
   
+  // A level matching the saved game (say, its share link opened again)
+  // resumes the saved paths and history instead of starting over
   setLevel: (level) => {
+    const stored = loadGameState();
+    const resumed = stored?.level && sameBoard(stored.level, level) ? stored : null;
+    const playerPaths = resumed?.playerPaths || new Map();
+    const history = restoreHistory(playerPaths, resumed ?? undefined);
     set({ 
       level, 
-      playerPaths: new Map(),
-      history: [],
-      historyIndex: -1,
-      error: null 
+      playerPaths,
+      currentColor: resumed?.currentColor || 0,
+      rejectedStrokes: 0,
+      hint: null,
+      history,
+      canUndo: history.canUndo(),
+      canRedo: history.canRedo(),
+      error: null,
+      errorCode: null
     });
-    saveGameState({ level, playerPaths: new Map(), currentColor: 0 });
+    get().saveToStorage();
+  },
+  
+  // Loaded levels replace the current params with the share code that
+  // reproduces them, by default their level code
+  loadLevel: (level, params = { lc: encodeLevelCode(level) }) => {
+    get().setLevel(level);
+    set({ params: { m: level.mode, ...params } });
   },
   
   setPlayerPaths: (paths) => {
-    set({ playerPaths: paths });
-    const { level, currentColor } = get();
-    saveGameState({ level, playerPaths: paths, currentColor });
+    set({ playerPaths: paths, hint: null });
+    get().saveToStorage();
   },
   
   setCurrentColor: (color) => set({ currentColor: color }),
   
   startDrag: (cellIndex) => {
-    const { level, currentColor, saveToHistory } = get();
-    if (!level) return;
+    const { level, playerPaths, rejectedStrokes } = get();
+    if (!level || level.open[cellIndex] !== 1) return;
+    
+    const stroke = beginStroke(level, playerPaths, cellIndex);
+    if (!stroke) {
+      set({ rejectedStrokes: rejectedStrokes + 1 });
+      return;
+    }
     
-    saveToHistory();
     set({ 
       isDragging: true, 
-      dragPath: [cellIndex],
-      playerPaths: new Map(get().playerPaths).set(currentColor, [cellIndex])
+      rejectedStrokes: 0,
+      currentColor: stroke.color,
+      dragPath: stroke.path,
+      strokeBase: playerPaths,
+      hint: null,
+      playerPaths: strokePaths(level, playerPaths, stroke.color, stroke.path)
     });
   },
   
   updateDrag: (cellIndex) => {
-    const { isDragging, dragPath, currentColor, playerPaths, level } = get();
+    const { isDragging, dragPath, currentColor, strokeBase, level } = get();
     if (!isDragging || !level) return;
     
     const lastCell = dragPath[dragPath.length - 1];
@@ -105,103 +254,106 @@ export const useGameStore = create<GameStore>((set, get) => ({
       const newPath = dragPath.slice(0, index + 1);
       set({ 
         dragPath: newPath,
-        playerPaths: new Map(playerPaths).set(currentColor, newPath)
+        playerPaths: strokePaths(level, strokeBase, currentColor, newPath)
       });
       return;
     }
     
-    // Check if cells are neighbors (4-directional)
-    if (areNeighbors(lastCell, cellIndex, level.w)) {
-      // Direct neighbor - just add it
-      const newPath = [...dragPath, cellIndex];
-      set({ 
-        dragPath: newPath,
-        playerPaths: new Map(playerPaths).set(currentColor, newPath)
-      });
-    } else {
-      // Not a direct neighbor - interpolate the path
-      const interpolated = interpolatePath(
-        lastCell,
-        cellIndex,
-        level.w,
-        level.h,
-        level.open,
-        dragPath
-      );
-      
-      if (interpolated && interpolated.length > 0) {
-        // Successfully found a path - add all intermediate cells
-        const newPath = [...dragPath, ...interpolated];
-        set({ 
-          dragPath: newPath,
-          playerPaths: new Map(playerPaths).set(currentColor, newPath)
+    // Direct neighbors are added as they are; a fast drag that skipped
+    // cells is interpolated
+    const cells = areNeighbors(lastCell, cellIndex, level.w)
+      ? [cellIndex]
+      : interpolatePath(lastCell, cellIndex, level.w, level.h, level.open, dragPath, {
+          obstacles: strokeObstacles(level, strokeBase, currentColor)
         });
-      }
-      // If no valid path found, ignore the input
+    
+    // If no valid path found, ignore the input
+    if (!cells || cells.length === 0) return;
+    
+    // Add cells until one breaks the mode's drawing rules
+    const newPath = [...dragPath];
+    for (const cell of cells) {
+      if (!canExtend(level, strokeBase, newPath, cell, currentColor)) break;
+      newPath.push(cell);
     }
+    if (newPath.length === dragPath.length) return;
+    
+    set({ 
+      dragPath: newPath,
+      playerPaths: strokePaths(level, strokeBase, currentColor, newPath)
+    });
   },
   
-  endDrag: () => set({ isDragging: false, dragPath: [] }),
+  // A finished stroke, including a press that only cut a path, is one command
+  endDrag: () => {
+    const { isDragging, saveToHistory } = get();
+    set({ isDragging: false, dragPath: [], strokeBase: new Map() });
+    if (isDragging) saveToHistory();
+  },
   
   clearPath: (color) => {
     const { playerPaths, saveToHistory } = get();
-    saveToHistory();
     const newPaths = new Map(playerPaths);
     newPaths.delete(color);
-    set({ playerPaths: newPaths });
+    set({ playerPaths: newPaths, hint: null });
+    saveToHistory();
   },
   
+  // Records the current paths as the latest command, dropping any redo
+  // entries; a command that changed nothing is not recorded
   saveToHistory: () => {
-    const { playerPaths, history, historyIndex } = get();
-    const newEntry: HistoryEntry = {
-      playerPaths: new Map(playerPaths),
-      timestamp: Date.now()
-    };
-    
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(newEntry);
-    
-    if (newHistory.length > MAX_HISTORY_SIZE) {
-      newHistory.shift();
-    }
+    const { playerPaths, history, saveToStorage } = get();
+    const current = history.getCurrent();
+    if (current && samePaths(current, playerPaths)) return;
     
-    set({ 
-      history: newHistory, 
-      historyIndex: newHistory.length - 1 
-    });
+    history.push(new Map(playerPaths));
+    set({ canUndo: history.canUndo(), canRedo: history.canRedo() });
+    saveToStorage();
   },
   
   undo: () => {
-    const { history, historyIndex } = get();
-    if (historyIndex > 0) {
-      const prevEntry = history[historyIndex - 1];
-      set({ 
-        playerPaths: new Map(prevEntry.playerPaths),
-        historyIndex: historyIndex - 1
-      });
-    }
+    const { history, isDragging, saveToStorage } = get();
+    const previous = isDragging ? null : history.undo();
+    if (!previous) return;
+    
+    set({ 
+      playerPaths: new Map(previous),
+      canUndo: history.canUndo(),
+      canRedo: history.canRedo(),
+      hint: null
+    });
+    saveToStorage();
   },
   
   redo: () => {
-    const { history, historyIndex } = get();
-    if (historyIndex < history.length - 1) {
-      const nextEntry = history[historyIndex + 1];
-      set({ 
-        playerPaths: new Map(nextEntry.playerPaths),
-        historyIndex: historyIndex + 1
-      });
-    }
+    const { history, isDragging, saveToStorage } = get();
+    const next = isDragging ? null : history.redo();
+    if (!next) return;
+    
+    set({ 
+      playerPaths: new Map(next),
+      canUndo: history.canUndo(),
+      canRedo: history.canRedo(),
+      hint: null
+    });
+    saveToStorage();
   },
   
-  reset: () => set({ 
-    playerPaths: new Map(),
-    currentColor: 0,
-    isDragging: false,
-    dragPath: [],
-    history: [],
-    historyIndex: -1,
-    error: null
-  }),
+  // Clears the board as a single command, so it can be undone
+  reset: () => {
+    set({ 
+      playerPaths: new Map(),
+      currentColor: 0,
+      isDragging: false,
+      dragPath: [],
+      strokeBase: new Map(),
+      rejectedStrokes: 0,
+      error: null,
+      errorCode: null,
+      hint: null
+    });
+    get().saveToHistory();
+  },
   
   setParams: (params) => set((state) => ({ 
     params: { ...state.params, ...params } 
@@ -209,24 +361,30 @@ export const useGameStore = create<GameStore>((set, get) => ({
   
   setIsGenerating: (generating) => set({ isGenerating: generating }),
   
-  setError: (error) => set({ error }),
+  setError: (error, code) => set({ error, errorCode: code ?? null }),
+  
+  setHint: (hint) => set({ hint }),
   
   loadFromStorage: () => {
     const stored = loadGameState();
     if (stored) {
+      const playerPaths = stored.playerPaths || new Map();
+      const history = restoreHistory(playerPaths, stored);
       set({
         level: stored.level || null,
-        playerPaths: stored.playerPaths || new Map(),
+        playerPaths,
         currentColor: stored.currentColor || 0,
-        history: [],
-        historyIndex: -1
+        history,
+        canUndo: history.canUndo(),
+        canRedo: history.canRedo(),
+        hint: null
       });
     }
   },
   
   saveToStorage: () => {
-    const { level, playerPaths, currentColor } = get();
-    saveGameState({ level, playerPaths, currentColor });
+    const { level, playerPaths, currentColor, history } = get();
+    saveGameState({ level, playerPaths, currentColor, history: history.getStates(), historyIndex: history.getIndex() });
   },
   
   clearStorage: () => {
@@ -234,8 +392,10 @@ export const useGameStore = create<GameStore>((set, get) => ({
     set({ 
       playerPaths: new Map(),
       currentColor: 0,
-      history: [],
-      historyIndex: -1
+      history: restoreHistory(new Map()),
+      canUndo: false,
+      canRedo: false,
+      hint: null
     });
   }
 }));
\ No newline at end of file
@@ -10,6 +10,16 @@ export interface DifficultyMetrics {
   corridorsPercent: number;
   turnRate: number;
   intertwineIndex?: number;
+  rating?: DeductionRating;
+}
+
+// Human-style deductions used to rate levels
+export type DeductionRule = 'forced-exit' | 'dead-end' | 'corridor' | 'two-by-two' | 'cut-vertex';
+
+export interface DeductionRating {
+  rules: Partial<Record<DeductionRule, number>>; // applications of each rule that was needed
+  guesses: number; // steps no rule could settle
+  score: number; // 0 (everything forced) to 10
 }
 
 export interface Level {
@@ -20,12 +30,36 @@ export interface Level {
   open: Uint8Array;
   starts: { color: number; i: number }[];
   pairs?: { color: number; a: number; b: number }[];
-  solution: number[];
+  solution: number[]; // cell indices, all color paths concatenated
+  solutionPaths?: number[][]; // per-color cell indices, indexed by color
   metrics: DifficultyMetrics;
   seed: string;
   params: Record<string, number | string>;
 }
 
+/**
+ * Portable level file, version 1 (see levelFile.ts). Cells are row-major
+ * indices (y * w + x); only the fields of the level's mode are present.
+ */
+export interface LevelFile {
+  format: 'block-fill-level';
+  version: 1;
+  mode: Mode;
+  w: number;
+  h: number;
+  open: string[]; // one string per row, '.' open and '#' hole
+  starts?: number[]; // Modes 1/2: the start cell of each color
+  pairs?: [number, number][]; // Mode 3: both ends of each color
+  solution?: number[][]; // per-color paths, each running from its start (or first end)
+  metrics?: DifficultyMetrics; // computed on import when absent
+  seed?: string;
+  params?: Record<string, number | string>;
+}
+
+// Which end of a Mode 1/2 segment is revealed: either, the end with fewer
+// open neighbours (more forced moves), or the one with more
+export type StartPlacement = 'random' | 'boundary' | 'interior';
+
 export interface GameParams {
   v?: number;
   m?: Mode;
@@ -35,6 +69,14 @@ export interface GameParams {
   hd?: number;
   diff?: DifficultyTier;
   seed?: string;
+  // Advanced: pinned targets that override the tier's metric bands
+  fr?: number; // forced-move ratio
+  tr?: number; // turn rate, turns per 10 steps
+  cp?: number; // corridor share of open cells (as in corridorsPercent)
+  lmin?: number; // minimum segment length
+  lmax?: number; // maximum segment length
+  sp?: StartPlacement;
+  lc?: string; // self-contained level code (levelCode.ts); replaces every other token
 }
 
 export interface Point {
@@ -58,21 +100,61 @@ export interface GameState {
   currentColor: number;
   isDragging: boolean;
   dragPath: number[];
-  history: GameState[];
-  historyIndex: number;
+  history: Map<number, number[]>[]; // the paths after each command, oldest first
+  historyIndex: number; // the entry shown; later entries can be redone
 }
 
 export interface WorkerMessage {
-  type: 'generate' | 'validate' | 'solve';
+  type: 'generate' | 'validate' | 'solve' | 'count' | 'hint';
   params?: GameParams;
+  uniqueness?: UniquenessPolicy; // generate: what to do with multi-solution levels
   level?: Level;
   paths?: Map<number, number[]>;
+  cap?: number; // count: stop once this many solutions are found
+  color?: number; // hint: the color to advance
 }
 
+export type WorkerErrorCode = 'gen-timeout' | 'gen-failed';
+
+// 'unknown' means the search budget ran out before an answer was found
+export type SolveStatus = 'solved' | 'unsolvable' | 'unknown';
+
+export interface SolveResult {
+  status: SolveStatus;
+  paths?: number[][]; // per-color cell indices, including the player's prefixes
+}
+
+// 'step': draw from -> to next; 'wrong': no solution goes through cell;
+// 'complete': nothing left to draw; 'unknown': the solver ran out of budget
+export type HintStatus = 'step' | 'wrong' | 'complete' | 'unknown';
+
+export interface Hint {
+  status: HintStatus;
+  color?: number;
+  from?: number; // step: the cell the color continues from
+  to?: number; // step: the next cell to draw
+  cell?: number; // wrong: the first drawn cell that no solution keeps
+}
+
+export interface SolutionCount {
+  count: number; // solutions found; a lower bound unless complete
+  complete: boolean; // false when the cap or the search budget stopped the count
+  solutions: number[][][]; // the solutions found, as per-color paths
+}
+
+// What the generator does with levels that have more than one solution
+export type UniquenessPolicy = 'off' | 'reject' | 'repair';
+
 export interface WorkerResponse {
-  type: 'generated' | 'validated' | 'solved' | 'error';
+  type: 'generated' | 'validated' | 'solved' | 'counted' | 'hinted' | 'error';
+  code?: WorkerErrorCode;
   level?: Level;
   valid?: boolean;
+  status?: SolveStatus;
   solution?: number[];
+  solutionPaths?: number[][];
+  count?: number;
+  complete?: boolean;
+  hint?: Hint;
   error?: string;
 }
\ No newline at end of file
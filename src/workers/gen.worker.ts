@@ -0,0 +1,98 @@
+import { WorkerMessage, WorkerResponse } from '@/types';
+import { generateLevel, GenFailedError, GenTimeoutError } from '@/lib/generator';
+import { countSolutions, solveLevel } from '@/lib/solver';
+import { findHint } from '@/lib/hint';
+
+// Generation worker: runs the shared engine from src/lib off the main thread
+
+function respond(response: WorkerResponse) {
+  self.postMessage(response);
+}
+
+self.onmessage = (event: MessageEvent<WorkerMessage>) => {
+  const { type, params, uniqueness, level, paths, cap, color } = event.data;
+
+  try {
+    switch (type) {
+      case 'generate': {
+        if (!params) {
+          throw new Error('Missing params for generation');
+        }
+
+        respond({ type: 'generated', level: generateLevel(params, { uniqueness }) });
+        break;
+      }
+
+      case 'validate': {
+        if (!level || !paths) {
+          throw new Error('Missing level or paths for validation');
+        }
+
+        const usedCells = new Set<number>();
+        let isValid = true;
+
+        for (const [, path] of paths) {
+          for (const cell of path) {
+            if (usedCells.has(cell) || level.open[cell] !== 1) {
+              isValid = false;
+              break;
+            }
+            usedCells.add(cell);
+          }
+          if (!isValid) break;
+        }
+
+        respond({ type: 'validated', valid: isValid });
+        break;
+      }
+
+      case 'solve': {
+        if (!level) {
+          throw new Error('Missing level for solving');
+        }
+
+        // The player's current paths (if any) are kept as fixed prefixes
+        const result = solveLevel(level, paths);
+        respond({
+          type: 'solved',
+          status: result.status,
+          solution: result.paths?.flat(),
+          solutionPaths: result.paths
+        });
+        break;
+      }
+
+      case 'count': {
+        if (!level) {
+          throw new Error('Missing level for counting');
+        }
+
+        // cap 2 answers "is it unique?"; larger caps give a bounded count
+        const result = countSolutions(level, paths, { cap });
+        respond({ type: 'counted', count: result.count, complete: result.complete });
+        break;
+      }
+
+      case 'hint': {
+        if (!level) {
+          throw new Error('Missing level for hint');
+        }
+
+        respond({ type: 'hinted', hint: findHint(level, paths || new Map(), color ?? 0) });
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown message type: ${type}`);
+    }
+  } catch (error) {
+    console.error('Worker: Error occurred:', error);
+    respond({
+      type: 'error',
+      code: error instanceof GenTimeoutError ? 'gen-timeout'
+        : error instanceof GenFailedError ? 'gen-failed'
+        : undefined,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};